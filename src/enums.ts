@@ -31,7 +31,58 @@ export enum RateUnit {
     PER_MONTH = "Per Month"
 }
 
+export enum PricingModel {
+    FLAT = "Flat", // one amount per billing cycle regardless of units
+    PER_UNIT = "Per Unit", // amount x units
+    TIERED = "Tiered", // graduated: each tier prices the units that fall within it
+    VOLUME = "Volume", // all units priced at the tier the total falls in
+    PACKAGE = "Package" // amount per package of `packageSize` units, rounded up
+}
+
+export enum DiscountType {
+    PERCENTAGE = "Percentage", // share of the subscriber's monthly revenue
+    FIXED_AMOUNT = "Fixed Amount" // fixed amount off per subscriber per month
+}
+
+export enum COSKind {
+    VARIABLE = "Variable", // subtotal per subscriber per month
+    FIXED = "Fixed", // subtotal per month, regardless of subscribers
+    STEP = "Step", // subtotal per block of `stepSize` subscribers, rounded up
+    ONE_OFF = "One-Off" // subtotal once, in `month`
+}
+
+export enum TrialLengthUnit {
+    DAYS = "Days",
+    MONTHS = "Months"
+}
+
+export enum ProrationPolicy {
+    DAILY = "Daily", // credit unused days of the old plan, charge remaining days of the new plan
+    NONE = "None", // no mid-cycle lines; the change applies from the next billing date
+    CREDIT_ON_DOWNGRADE = "Credit On Downgrade" // like DAILY, but a net credit is carried forward instead of refunded
+}
+
 export enum CapacityPeriodResizeMode {
   DEFAULT = "default", // trim or pad, keep per-month units
   DISTRIBUTE = "distribute", // preserve total capacity, redistribute evenly
 }
+
+export enum CapacityCurve {
+  COMPOUND = "compound", // start × (1 + growthRate)^t; negative growth for decline
+  LINEAR = "linear", // start + increment × t; negative increment for decline
+  LOGISTIC = "logistic", // S-curve from start toward a market ceiling
+  STEP = "step", // start plus step increases from given months
+}
+
+export enum RevenueBasis {
+  ACCRUAL = "accrual", // monthly-equivalent revenue, spread evenly across the billing cycle
+  CASH = "cash", // full invoice amount, recognized in the month it is billed
+}
+
+export enum InvoiceLineKind {
+  BASE = "base", // base rate for the billing period
+  ADD_ON = "add-on", // add-on billed on its own cycle
+  USAGE = "usage", // metered overage for the month
+  TRIAL = "trial", // paid trial users for the month
+  PRORATION = "proration", // recorded mid-cycle proration
+}
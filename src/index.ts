@@ -1,4 +1,5 @@
 export * from "./majik-subscription";
+export * from "./majik-subscription-portfolio";
 export * from "./utils";
 export * from "./enums";
 export * from "./types";
@@ -0,0 +1,361 @@
+import { MajikMoney } from "@thezelijah/majik-money";
+import {
+  ISODateString,
+  MonthlySnapshot,
+  ObjectType,
+  PlanRevenueShare,
+  PortfolioFilter,
+  PortfolioJSON,
+  SubscriptionID,
+  YYYYMM,
+} from "./types";
+import { autogenerateID, dateToYYYYMM, isValidYYYYMM } from "./utils";
+import { MajikSubscription } from "./majik-subscription";
+
+/**
+ * Represents a catalog of subscriptions (e.g. Free, Pro and Enterprise plans) in the Majik system.
+ * Aggregates monthly finance, MRR/ARR and revenue mix across its member subscriptions.
+ * Members priced in other currencies are converted with their own FX rates.
+ */
+export class MajikSubscriptionPortfolio {
+  readonly __type = "MajikSubscriptionPortfolio";
+  readonly __object: ObjectType = "class";
+  id: string;
+  name: string;
+  currencyCode: string;
+  timestamp: ISODateString;
+  last_update: ISODateString;
+  private members: MajikSubscription[] = [];
+
+  /**
+   * Creates a new `MajikSubscriptionPortfolio` instance.
+   * @param {string | undefined} id - Optional portfolio ID. Auto-generated if undefined.
+   * @param {string} name - Name of the portfolio.
+   * @param {string} currencyCode - Currency the portfolio reports in.
+   * @param {MajikSubscription[]} [subscriptions=[]] - Initial member subscriptions.
+   * @param {ISODateString} [timestamp=new Date().toISOString()] - Optional creation timestamp.
+   * @param {ISODateString} [last_update=new Date().toISOString()] - Optional last update timestamp.
+   */
+  constructor(
+    id: string | undefined,
+    name: string,
+    currencyCode: string,
+    subscriptions: MajikSubscription[] = [],
+    timestamp: ISODateString = new Date().toISOString(),
+    last_update: ISODateString = new Date().toISOString()
+  ) {
+    this.id = id || autogenerateID("mjksubport");
+    this.name = name;
+    this.currencyCode = currencyCode;
+    this.timestamp = timestamp;
+    this.last_update = last_update;
+    this.members = [...subscriptions];
+  }
+
+  /**
+   * Initializes and creates a new `MajikSubscriptionPortfolio`.
+   * @param name - Name of the portfolio.
+   * @param currencyCode - Currency the portfolio reports in.
+   * @param subscriptions - Optional initial member subscriptions.
+   * @returns A new `MajikSubscriptionPortfolio` instance.
+   */
+  static initialize(
+    name: string,
+    currencyCode: string,
+    subscriptions: MajikSubscription[] = []
+  ): MajikSubscriptionPortfolio {
+    if (!name || typeof name !== "string" || name.trim() === "") {
+      throw new Error("Name must be a valid non-empty string.");
+    }
+
+    if (!currencyCode || typeof currencyCode !== "string") {
+      throw new Error("Currency code must be a valid non-empty string.");
+    }
+
+    return new MajikSubscriptionPortfolio(
+      undefined,
+      name,
+      currencyCode,
+      subscriptions
+    );
+  }
+
+  /** Zero-value MajikMoney in the portfolio currency. */
+  private DEFAULT_ZERO(): MajikMoney {
+    return MajikMoney.fromMinor(0, this.currencyCode);
+  }
+
+  /* ------------------ MEMBER MANAGEMENT ------------------ */
+
+  /**
+   * Returns all member subscriptions.
+   * @returns {readonly MajikSubscription[]} - Array of subscriptions.
+   */
+  get subscriptions(): readonly MajikSubscription[] {
+    return this.members;
+  }
+
+  /** Returns the number of member subscriptions. */
+  get size(): number {
+    return this.members.length;
+  }
+
+  /**
+   * Adds a subscription to the portfolio.
+   * @param {MajikSubscription} subscription - Subscription to add.
+   * @returns {MajikSubscriptionPortfolio} - Returns self for chaining.
+   * @throws Will throw an error if the ID already exists.
+   */
+  add(subscription: MajikSubscription): this {
+    if (this.members.some((s) => s.id === subscription.id)) {
+      throw new Error(`Subscription ${subscription.id} already exists`);
+    }
+    this.members.push(subscription);
+    this.updateTimestamp();
+    return this;
+  }
+
+  /**
+   * Removes a subscription by ID.
+   * @param {SubscriptionID} id - Subscription ID.
+   * @returns {MajikSubscriptionPortfolio} - Returns self for chaining.
+   * @throws Will throw an error if the subscription does not exist.
+   */
+  remove(id: SubscriptionID): this {
+    const index = this.members.findIndex((s) => s.id === id);
+    if (index === -1) throw new Error(`Subscription ${id} not found`);
+    this.members.splice(index, 1);
+    this.updateTimestamp();
+    return this;
+  }
+
+  /**
+   * Returns a subscription by ID, if present.
+   * @param {SubscriptionID} id - Subscription ID.
+   */
+  get(id: SubscriptionID): MajikSubscription | undefined {
+    return this.members.find((s) => s.id === id);
+  }
+
+  /**
+   * Returns a new portfolio containing only the subscriptions matching all given criteria.
+   * @param {PortfolioFilter} criteria - Category, status, visibility and/or type to match.
+   * @returns {MajikSubscriptionPortfolio} - Filtered portfolio sharing the same member instances.
+   */
+  filter(criteria: PortfolioFilter): MajikSubscriptionPortfolio {
+    const matches = this.members.filter(
+      (s) =>
+        (criteria.category === undefined || s.category === criteria.category) &&
+        (criteria.status === undefined || s.status === criteria.status) &&
+        (criteria.visibility === undefined ||
+          s.settings.visibility === criteria.visibility) &&
+        (criteria.type === undefined || s.type === criteria.type)
+    );
+
+    return new MajikSubscriptionPortfolio(
+      undefined,
+      this.name,
+      this.currencyCode,
+      matches
+    );
+  }
+
+  /**
+   * Returns every month covered by at least one member's capacity plan, in chronological order.
+   */
+  get months(): YYYYMM[] {
+    const months = new Set<YYYYMM>();
+    this.members.forEach((s) => s.capacity.forEach((c) => months.add(c.month)));
+    return [...months].sort();
+  }
+
+  /* ------------------ AGGREGATE FINANCE ------------------ */
+
+  /** Sums a money getter across all members. */
+  private sum(getter: (s: MajikSubscription) => MajikMoney): MajikMoney {
+    return this.members.reduce(
+      (acc, s) => acc.add(getter(s)),
+      this.DEFAULT_ZERO()
+    );
+  }
+
+  /**
+   * Returns combined revenue for a specific month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   */
+  getRevenue(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.sum((s) => s.getRevenue(month, this.currencyCode));
+  }
+
+  /**
+   * Returns combined COS for a specific month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   */
+  getCOS(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.sum((s) => s.getCOS(month, this.currencyCode));
+  }
+
+  /**
+   * Returns combined profit for a specific month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   */
+  getProfit(month: YYYYMM): MajikMoney {
+    return this.getRevenue(month).subtract(this.getCOS(month));
+  }
+
+  /**
+   * Returns the combined finance snapshot for a specific month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MonthlySnapshot} - Sum of all member snapshots; margin is recomputed on the totals.
+   */
+  getMonthlySnapshot(month: YYYYMM): MonthlySnapshot {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const snapshots = this.members.map((s) =>
+      s.getMonthlySnapshot(month, this.currencyCode)
+    );
+    const total = (key: Exclude<keyof MonthlySnapshot, "month" | "margin">) =>
+      snapshots.reduce((acc, snap) => acc.add(snap[key]), this.DEFAULT_ZERO());
+
+    const revenue = total("revenue");
+    const profit = total("profit");
+
+    return {
+      month,
+      revenue,
+      baseRevenue: total("baseRevenue"),
+      addOnRevenue: total("addOnRevenue"),
+      cashRevenue: total("cashRevenue"),
+      usageRevenue: total("usageRevenue"),
+      discounts: total("discounts"),
+      taxCollected: total("taxCollected"),
+      taxWithheld: total("taxWithheld"),
+      cogs: total("cogs"),
+      profit,
+      margin: revenue.isZero() ? 0 : profit.ratio(revenue),
+      netRevenue: total("netRevenue"),
+      netIncome: total("netIncome"),
+    };
+  }
+
+  /**
+   * Returns combined monthly snapshots for every month covered by the portfolio.
+   */
+  getMonthlySnapshots(): MonthlySnapshot[] {
+    return this.months.map((m) => this.getMonthlySnapshot(m));
+  }
+
+  /** Total Monthly Recurring Revenue (MRR) for a specific month or current month if not provided */
+  getMRR(month?: YYYYMM): MajikMoney {
+    const target = month ?? dateToYYYYMM(new Date());
+    return this.sum((s) => s.getMRR(target, this.currencyCode));
+  }
+
+  /**
+   * Total Annual Recurring Revenue (ARR) across all members.
+   * @param {number} months - Number of future months to forecast. Defaults to 12.
+   */
+  getARR(months: number = 12): MajikMoney {
+    return this.sum((s) => s.getARR(months, this.currencyCode));
+  }
+
+  /** Total gross revenue across all members and months. */
+  get grossRevenue(): MajikMoney {
+    return this.sum((s) => s.getFinance(this.currencyCode).revenue.gross.value);
+  }
+
+  /** Total gross COS across all members and months. */
+  get grossCost(): MajikMoney {
+    return this.sum((s) => s.getFinance(this.currencyCode).cos.gross.value);
+  }
+
+  /** Total gross profit across all members and months. */
+  get grossProfit(): MajikMoney {
+    return this.sum((s) => s.getFinance(this.currencyCode).profit.gross.value);
+  }
+
+  /**
+   * Returns each plan's share of portfolio revenue, largest first.
+   * @param {YYYYMM} [month] - Month to compare. Uses gross revenue across all months if omitted.
+   * @returns {PlanRevenueShare[]} - Revenue and share per plan.
+   */
+  getRevenueMix(month?: YYYYMM): PlanRevenueShare[] {
+    if (month !== undefined && !isValidYYYYMM(month)) {
+      throw new Error("Invalid month");
+    }
+
+    const revenues = this.members.map((s) => ({
+      id: s.id,
+      name: s.name,
+      revenue: month
+        ? s.getRevenue(month, this.currencyCode)
+        : s.getFinance(this.currencyCode).revenue.gross.value,
+    }));
+    const total = revenues.reduce(
+      (acc, r) => acc.add(r.revenue),
+      this.DEFAULT_ZERO()
+    );
+
+    return revenues
+      .map((r) => ({
+        ...r,
+        share: total.isZero() ? 0 : r.revenue.ratio(total),
+      }))
+      .sort((a, b) => b.share - a.share);
+  }
+
+  /* ------------------ UTILITIES ------------------ */
+
+  /**
+   * Converts the portfolio to a plain JSON object, serializing each member with its own `toJSON`.
+   * @returns {PortfolioJSON} - Plain object representation.
+   */
+  toJSON(): PortfolioJSON {
+    return {
+      __type: "MajikSubscriptionPortfolio",
+      __object: "json",
+      id: this.id,
+      name: this.name,
+      currencyCode: this.currencyCode,
+      timestamp: this.timestamp,
+      last_update: this.last_update,
+      subscriptions: this.members.map((s) => s.toJSON()),
+    };
+  }
+
+  /**
+   * Parses a plain object or JSON string into a MajikSubscriptionPortfolio instance.
+   * @param {string | object} json - JSON string or object.
+   * @returns {MajikSubscriptionPortfolio} - Parsed portfolio instance.
+   * @throws {Error} - Throws if required properties are missing.
+   */
+  static parseFromJSON(json: string | object): MajikSubscriptionPortfolio {
+    const parsedData: PortfolioJSON =
+      typeof json === "string" ? JSON.parse(json) : structuredClone(json);
+
+    if (!parsedData.id) throw new Error("Missing required property: 'id'");
+    if (!parsedData.currencyCode)
+      throw new Error("Missing required property: 'currencyCode'");
+    if (!Array.isArray(parsedData.subscriptions))
+      throw new Error("Missing required property: 'subscriptions'");
+
+    return new MajikSubscriptionPortfolio(
+      parsedData.id,
+      parsedData.name,
+      parsedData.currencyCode,
+      parsedData.subscriptions.map((s) => MajikSubscription.parseFromJSON(s)),
+      parsedData.timestamp,
+      parsedData.last_update
+    );
+  }
+
+  /**
+   * Updates the last_update timestamp to current time.
+   * @private
+   */
+  private updateTimestamp(): void {
+    this.last_update = new Date().toISOString();
+  }
+}
@@ -4,15 +4,72 @@ import {
   serializeMoney,
 } from "@thezelijah/majik-money";
 import {
+  AcquisitionCost,
+  CapacityCurveOptions,
+  CapacityReportRow,
+  ChurnRate,
+  CohortModel,
+  CohortRow,
+  DiffEntry,
+  ComparableSubscriptionState,
   COSItem,
+  COSSchedule,
+  COSChange,
+  FinanceDelta,
+  FXRateProvider,
+  FXRateTable,
+  InvoiceDiscountLine,
+  InvoiceLine,
+  InvoiceRecord,
+  InvoiceScheduleOptions,
   ISODateString,
+  JournalChange,
+  JournalEntry,
+  MergeConflict,
+  MeteredComponent,
+  MonthlyActuals,
   MonthlyCapacity,
+  MonthlySnapshot,
+  MonthlyVariance,
+  MRRMovement,
   ObjectType,
+  PriceTier,
+  ProrationChange,
+  ProrationLine,
+  ProrationPlan,
+  ProrationResult,
+  RegionalPrice,
+  ReforecastMonth,
+  RollingForecast,
+  ScenarioMetrics,
+  SchemaIssue,
+  ScenarioOverrides,
+  ScenarioResult,
+  ScenarioVariable,
+  SensitivityPoint,
   StartDateInput,
+  StatusChange,
+  SubscriptionAddOn,
+  SubscriptionDiff,
+  SubscriptionDiscount,
+  SubscriptionEventListener,
+  SubscriptionEventMap,
+  SubscriptionEventName,
+  SubscriptionFinance,
+  SubscriptionJournal,
   SubscriptionID,
   SubscriptionMetadata,
   SubscriptionRate,
   SubscriptionSettings,
+  SubscriptionTaxConfig,
+  SubscriptionTrial,
+  TaxBreakdown,
+  TaxLine,
+  TrialFunnel,
+  VarianceLine,
+  UnitEconomics,
+  ValidationIssue,
+  ValidationReport,
   YYYYMM,
 } from "./types";
 import {
@@ -24,14 +81,55 @@ import {
   normalizeStartDate,
   offsetMonthsToYYYYMM,
   dateToYYYYMM,
+  billingCycleMonthlyFactor,
+  billingEventsInMonth,
+  computeCohortSurvivors,
+  buildCapacityCurve,
+  fitCapacityCurve,
+  assertValidPricing,
+  computeRateCharge,
+  assertValidTiers,
+  computeMeteredCharge,
+  isDiscountActive,
+  assertValidCOSSchedule,
+  computeCOSItemCost,
+  convertMoney,
+  createFXRateProvider,
+  canTransitionStatus,
+  yyyyMMToISO,
+  effectiveSubscribers,
+  trialLengthInMonths,
+  anchorDateInMonth,
+  nextBillingDateAfter,
+  isoToYYYYMM,
+  yyyyMMToDate,
+  daysInMonth,
+  SUBSCRIPTION_SCHEMA_VERSION,
+  migrateSubscriptionJSON,
+  validateSubscriptionJSON,
+  isRecord,
+  diffValues,
+  formatDiffPath,
+  isDiffPathPrefix,
+  isSameValue,
+  getDiffPathValue,
+  applyDiffEntry,
 } from "./utils";
 import {
   BillingCycle,
+  CapacityCurve,
   CapacityPeriodResizeMode,
+  COSKind,
+  DiscountType,
+  InvoiceLineKind,
+  PricingModel,
+  ProrationPolicy,
   RateUnit,
+  RevenueBasis,
   SubscriptionStatus,
   SubscriptionType,
   SubscriptionVisibility,
+  TrialLengthUnit,
 } from "./enums";
 
 /**
@@ -46,13 +144,26 @@ export class MajikSubscription {
   name: string;
   category: string;
   rate: SubscriptionRate;
-  status: SubscriptionStatus;
   type: SubscriptionType;
   timestamp: ISODateString;
   last_update: ISODateString;
   metadata: SubscriptionMetadata;
   settings: SubscriptionSettings;
   private financeDirty = true;
+  private fxProvider?: FXRateProvider;
+  private listeners = new Map<
+    SubscriptionEventName,
+    Set<(payload: never) => void>
+  >();
+  private batchDepth = 0;
+  private batchMutated = false;
+  private pendingFinance?: SubscriptionFinance;
+  private eventSnapshot?: Record<
+    "rate" | "cos" | "capacity" | "status",
+    string
+  >;
+  private journalActor?: string;
+  private journalDepth = 0;
 
   /**
    * Creates a new `MajikSubscription` instance.
@@ -85,23 +196,31 @@ export class MajikSubscription {
     this.type = this.metadata.type;
     this.category = this.metadata.category;
     this.rate = this.metadata.rate;
-    this.status = this.settings.status;
     this.timestamp = timestamp;
     this.last_update = last_update;
   }
 
-  /** Marks finance calculations as dirty for lazy recomputation */
+  /**
+   * Marks finance calculations as dirty for lazy recomputation.
+   * With `financeRecomputed` listeners, finance is recomputed right away (at the end of a batch).
+   */
   private markFinanceDirty(): void {
     this.financeDirty = true;
+    if (this.batchDepth === 0 && this.listeners.has("financeRecomputed"))
+      this.recomputeFinance();
   }
 
   /**
    * Returns a zero-value MajikMoney object in the subscription currency.
-   * @param {string} [currencyCode] - Optional currency code. Defaults to subscription rate currency or PHP.
+   * @param {string} [currencyCode] - Optional currency code. Defaults to the subscription rate currency, then the reporting currency.
    * @returns {MajikMoney} - A zero-value MajikMoney instance.
    */
   private DEFAULT_ZERO(currencyCode?: string): MajikMoney {
-    const code = currencyCode || this.rate?.amount?.currency?.code || "PHP";
+    const code =
+      currencyCode ||
+      this.rate?.amount?.currency?.code ||
+      this.metadata?.fx?.reportingCurrency;
+    if (!code) throw new Error("Subscription has no currency");
     return MajikMoney.fromMinor(0, code);
   }
 
@@ -126,6 +245,8 @@ export class MajikSubscription {
       throw new Error("Category must be a valid non-empty string.");
     }
 
+    assertValidPricing(rate);
+
     // Set default values for optional parameters
     const defaultMetadata: SubscriptionMetadata = {
       description: {
@@ -166,10 +287,12 @@ export class MajikSubscription {
    * @returns {MajikSubscription} - Returns self for chaining.
    */
   setName(name: string): this {
-    this.name = name;
-    this.slug = generateSlug(name);
-    this.updateTimestamp();
-    return this;
+    return this.runJournaled("setName", [name], () => {
+      this.name = name;
+      this.slug = generateSlug(name);
+      this.updateTimestamp();
+      return this;
+    });
   }
 
   /**
@@ -178,11 +301,14 @@ export class MajikSubscription {
    * @returns {MajikSubscription} - Returns self for chaining.
    */
   setRate(rate: SubscriptionRate): this {
-    this.rate = rate;
-    this.metadata.rate = rate;
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+    return this.runJournaled("setRate", [rate], () => {
+      assertValidPricing(rate);
+      this.rate = rate;
+      this.metadata.rate = rate;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
   /**
@@ -191,11 +317,13 @@ export class MajikSubscription {
    * @returns {MajikSubscription} - Returns self for chaining.
    */
   setRateUnit(unit: RateUnit): this {
-    this.rate.unit = unit;
-    this.metadata.rate.unit = unit;
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+    return this.runJournaled("setRateUnit", [unit], () => {
+      this.rate.unit = unit;
+      this.metadata.rate.unit = unit;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
   /**
@@ -205,18 +333,20 @@ export class MajikSubscription {
    * @throws Will throw an error if amount is non-positive.
    */
   setRateAmount(amount: number): this {
-    if (amount <= 0) throw new Error("Rate Amount must be positive");
-    this.rate.amount = MajikMoney.fromMajor(
-      amount,
-      this.rate.amount.currency.code
-    );
-    this.metadata.rate.amount = MajikMoney.fromMajor(
-      amount,
-      this.metadata.rate.amount.currency.code
-    );
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+    return this.runJournaled("setRateAmount", [amount], () => {
+      if (amount <= 0) throw new Error("Rate Amount must be positive");
+      this.rate.amount = MajikMoney.fromMajor(
+        amount,
+        this.rate.amount.currency.code
+      );
+      this.metadata.rate.amount = MajikMoney.fromMajor(
+        amount,
+        this.metadata.rate.amount.currency.code
+      );
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
   /**
@@ -225,11 +355,48 @@ export class MajikSubscription {
    * @returns {MajikSubscription} - Returns self for chaining.
    */
   setBillingCycle(cycle: BillingCycle): this {
-    this.rate.billingCycle = cycle;
-    this.metadata.rate.billingCycle = cycle;
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+    return this.runJournaled("setBillingCycle", [cycle], () => {
+      this.rate.billingCycle = cycle;
+      this.metadata.rate.billingCycle = cycle;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /**
+   * Updates the day of month invoices are issued.
+   * Days past the end of a shorter month bill on its last day.
+   * @param {number} day - Anchor day (1–31).
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the day is not an integer between 1 and 31.
+   */
+  setBillingAnchorDay(day: number): this {
+    return this.runJournaled("setBillingAnchorDay", [day], () => {
+      return this.setRate({ ...this.rate, anchorDay: day });
+    });
+  }
+
+  /**
+   * Updates the pricing model of the rate.
+   * @param {PricingModel} model - New pricing model. Use Enum `PricingModel`.
+   * @param {object} [options] - Tiers for TIERED/VOLUME pricing, package size for PACKAGE pricing.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the model configuration is invalid.
+   */
+  setPricingModel(
+    model: PricingModel,
+    options: { tiers?: PriceTier[]; packageSize?: number } = {}
+  ): this {
+    return this.runJournaled("setPricingModel", [model, options], () => {
+      const rate: SubscriptionRate = {
+        ...this.rate,
+        model,
+        tiers: options.tiers ?? this.rate.tiers,
+        packageSize: options.packageSize ?? this.rate.packageSize,
+      };
+      return this.setRate(rate);
+    });
   }
 
   /**
@@ -238,10 +405,12 @@ export class MajikSubscription {
    * @returns {MajikSubscription} - Returns self for chaining.
    */
   setCategory(category: string): this {
-    this.category = category;
-    this.metadata.category = category;
-    this.updateTimestamp();
-    return this;
+    return this.runJournaled("setCategory", [category], () => {
+      this.category = category;
+      this.metadata.category = category;
+      this.updateTimestamp();
+      return this;
+    });
   }
 
   /**
@@ -252,14 +421,16 @@ export class MajikSubscription {
    * @throws Will throw an error if either html or text is invalid.
    */
   setDescription(html: string, text: string): this {
-    if (!html || typeof html !== "string" || html.trim() === "")
-      throw new Error("HTML must be a valid non-empty string.");
-    if (!text || typeof text !== "string" || text.trim() === "")
-      throw new Error("Text must be a valid non-empty string.");
-    this.metadata.description.html = html;
-    this.metadata.description.text = text;
-    this.updateTimestamp();
-    return this;
+    return this.runJournaled("setDescription", [html, text], () => {
+      if (!html || typeof html !== "string" || html.trim() === "")
+        throw new Error("HTML must be a valid non-empty string.");
+      if (!text || typeof text !== "string" || text.trim() === "")
+        throw new Error("Text must be a valid non-empty string.");
+      this.metadata.description.html = html;
+      this.metadata.description.text = text;
+      this.updateTimestamp();
+      return this;
+    });
   }
 
   /**
@@ -269,11 +440,13 @@ export class MajikSubscription {
    * @throws Will throw an error if text is invalid.
    */
   setDescriptionText(text: string): this {
-    if (!text || typeof text !== "string" || text.trim() === "")
-      throw new Error("Description Text must be a valid non-empty string.");
-    this.metadata.description.text = text;
-    this.updateTimestamp();
-    return this;
+    return this.runJournaled("setDescriptionText", [text], () => {
+      if (!text || typeof text !== "string" || text.trim() === "")
+        throw new Error("Description Text must be a valid non-empty string.");
+      this.metadata.description.text = text;
+      this.updateTimestamp();
+      return this;
+    });
   }
 
   /**
@@ -283,11 +456,13 @@ export class MajikSubscription {
    * @throws Will throw an error if html is invalid.
    */
   setDescriptionHTML(html: string): this {
-    if (!html || typeof html !== "string" || html.trim() === "")
-      throw new Error("Description HTML must be a valid non-empty string.");
-    this.metadata.description.html = html;
-    this.updateTimestamp();
-    return this;
+    return this.runJournaled("setDescriptionHTML", [html], () => {
+      if (!html || typeof html !== "string" || html.trim() === "")
+        throw new Error("Description HTML must be a valid non-empty string.");
+      this.metadata.description.html = html;
+      this.updateTimestamp();
+      return this;
+    });
   }
 
   /**
@@ -296,14 +471,16 @@ export class MajikSubscription {
    * @returns {MajikSubscription} - Returns self for chaining.
    */
   setDescriptionSEO(text: string): this {
-    if (!text || typeof text !== "string" || text.trim() === "") {
-      this.metadata.description.seo = undefined;
+    return this.runJournaled("setDescriptionSEO", [text], () => {
+      if (!text || typeof text !== "string" || text.trim() === "") {
+        this.metadata.description.seo = undefined;
+        this.updateTimestamp();
+        return this;
+      }
+      this.metadata.description.seo = text;
       this.updateTimestamp();
       return this;
-    }
-    this.metadata.description.seo = text;
-    this.updateTimestamp();
-    return this;
+    });
   }
 
   /**
@@ -312,14 +489,16 @@ export class MajikSubscription {
    * @throws Will throw an error if the `type` is not provided or is not a string.
    */
   setType(type: SubscriptionType): this {
-    if (!Object.values(SubscriptionType).includes(type)) {
-      throw new Error("Invalid Subscription type.");
-    }
+    return this.runJournaled("setType", [type], () => {
+      if (!Object.values(SubscriptionType).includes(type)) {
+        throw new Error("Invalid Subscription type.");
+      }
 
-    this.metadata.type = type;
-    this.type = type;
-    this.updateTimestamp();
-    return this;
+      this.metadata.type = type;
+      this.type = type;
+      this.updateTimestamp();
+      return this;
+    });
   }
 
   /**
@@ -332,6 +511,158 @@ export class MajikSubscription {
     return this.metadata.description.text;
   }
 
+  /* ------------------ LIFECYCLE ------------------ */
+
+  /**
+   * Returns the current lifecycle status (stored in `settings.status`).
+   * Use `transitionStatus` or the lifecycle shortcuts to change it.
+   */
+  get status(): SubscriptionStatus {
+    return this.settings.status;
+  }
+
+  /**
+   * Returns the recorded status transitions, oldest first.
+   * @returns {readonly StatusChange[]} - Status history.
+   */
+  get statusHistory(): readonly StatusChange[] {
+    return this.settings.statusHistory ?? [];
+  }
+
+  /**
+   * Moves the subscription to a new status and records the transition.
+   * Allowed transitions are defined in `SUBSCRIPTION_STATUS_TRANSITIONS`.
+   * @param {SubscriptionStatus} to - New status. Use Enum `SubscriptionStatus`.
+   * @param {Date | ISODateString} [effectiveDate=new Date()] - When the new status takes effect.
+   * @param {string} [reason] - Optional reason for the change.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the transition is not allowed or predates the last recorded transition.
+   */
+  transitionStatus(
+    to: SubscriptionStatus,
+    effectiveDate: Date | ISODateString = new Date(),
+    reason?: string
+  ): this {
+    return this.runJournaled(
+      "transitionStatus",
+      [to, effectiveDate, reason],
+      () => {
+        const from = this.settings.status;
+
+        if (!Object.values(SubscriptionStatus).includes(to)) {
+          throw new Error("Invalid Subscription status.");
+        }
+        if (!canTransitionStatus(from, to)) {
+          throw new Error(`Cannot transition from ${from} to ${to}`);
+        }
+
+        const date = new Date(effectiveDate);
+        if (isNaN(date.getTime())) throw new Error("Invalid effective date");
+
+        const effective = date.toISOString();
+        const history = this.settings.statusHistory ?? [];
+        const last = history[history.length - 1];
+        if (last && effective < last.effectiveDate) {
+          throw new Error(
+            "Effective date cannot precede the last status change"
+          );
+        }
+
+        this.settings.statusHistory = [
+          ...history,
+          {
+            from,
+            to,
+            effectiveDate: effective,
+            timestamp: new Date().toISOString(),
+            reason,
+          },
+        ];
+        this.settings.status = to;
+        this.updateTimestamp();
+        this.markFinanceDirty();
+        return this;
+      }
+    );
+  }
+
+  /** Transitions to ACTIVE. See `transitionStatus`. */
+  activate(effectiveDate?: Date | ISODateString, reason?: string): this {
+    return this.runJournaled("activate", [effectiveDate, reason], () => {
+      return this.transitionStatus(
+        SubscriptionStatus.ACTIVE,
+        effectiveDate,
+        reason
+      );
+    });
+  }
+
+  /** Transitions to SUSPENDED. See `transitionStatus`. */
+  suspend(effectiveDate?: Date | ISODateString, reason?: string): this {
+    return this.runJournaled("suspend", [effectiveDate, reason], () => {
+      return this.transitionStatus(
+        SubscriptionStatus.SUSPENDED,
+        effectiveDate,
+        reason
+      );
+    });
+  }
+
+  /** Transitions to INACTIVE. See `transitionStatus`. */
+  deactivate(effectiveDate?: Date | ISODateString, reason?: string): this {
+    return this.runJournaled("deactivate", [effectiveDate, reason], () => {
+      return this.transitionStatus(
+        SubscriptionStatus.INACTIVE,
+        effectiveDate,
+        reason
+      );
+    });
+  }
+
+  /** Transitions to CANCELLED. Cancellation is final. See `transitionStatus`. */
+  cancel(effectiveDate?: Date | ISODateString, reason?: string): this {
+    return this.runJournaled("cancel", [effectiveDate, reason], () => {
+      return this.transitionStatus(
+        SubscriptionStatus.CANCELLED,
+        effectiveDate,
+        reason
+      );
+    });
+  }
+
+  /**
+   * Returns the status in effect at the start of a month.
+   * Before the first recorded transition, the status that transition started from applies.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {SubscriptionStatus} - Status for the month.
+   */
+  getStatusAt(month: YYYYMM): SubscriptionStatus {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const history = this.settings.statusHistory ?? [];
+    if (history.length === 0) return this.settings.status;
+
+    const monthStart = yyyyMMToISO(month);
+    let status = history[0].from;
+    for (const change of history) {
+      if (change.effectiveDate > monthStart) break;
+      status = change.to;
+    }
+    return status;
+  }
+
+  /**
+   * Returns true if the subscription earns revenue in a month,
+   * i.e. it is neither suspended nor cancelled at the start of the month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   */
+  isBillable(month: YYYYMM): boolean {
+    const status = this.getStatusAt(month);
+    return (
+      status !== SubscriptionStatus.SUSPENDED &&
+      status !== SubscriptionStatus.CANCELLED
+    );
+  }
+
   /* ------------------ COS MANAGEMENT ------------------ */
 
   /**
@@ -347,115 +678,130 @@ export class MajikSubscription {
    * @param {MajikMoney} unitCost - Cost per unit.
    * @param {number} [quantity=1] - Number of units.
    * @param {string} [unit] - Optional unit (e.g., "subscriber", "month").
+   * @param {COSSchedule} [schedule] - Optional cost behaviour: kind (variable, fixed, step, one-off), step size, and effective months.
    * @returns {MajikSubscription} - Returns self for chaining.
    */
   addCOS(
     name: string,
     unitCost: MajikMoney,
     quantity: number = 1,
-    unit?: string
+    unit?: string,
+    schedule: COSSchedule = {}
   ): this {
-    if (!name.trim()) throw new Error("COS name cannot be empty");
-    if (quantity <= 0)
-      throw new Error("COS quantity must be greater than zero");
-    this.assertCurrency(unitCost);
-
-    const newItem: COSItem = {
-      id: autogenerateID("mjksubcost"),
-      item: name,
-      quantity,
-      unitCost,
-      unit,
-      subtotal: unitCost.multiply(quantity),
-    };
-
-    this.metadata.cos.push(newItem);
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+    return this.runJournaled(
+      "addCOS",
+      [name, unitCost, quantity, unit, schedule],
+      () => {
+        if (!name.trim()) throw new Error("COS name cannot be empty");
+        if (quantity <= 0)
+          throw new Error("COS quantity must be greater than zero");
+        this.assertConvertible(unitCost);
+
+        const newItem: COSItem = {
+          id: autogenerateID("mjksubcost"),
+          item: name,
+          quantity,
+          unitCost,
+          unit,
+          subtotal: unitCost.multiply(quantity),
+          ...schedule,
+        };
+        assertValidCOSSchedule(newItem);
+
+        this.metadata.cos.push(newItem);
+        this.updateTimestamp();
+        this.markFinanceDirty();
+        return this;
+      }
+    );
   }
 
   /**
    * Pushes an existing COSItem into the metadata.
    * @param {COSItem} item - COSItem to add.
    * @returns {MajikSubscription} - Returns self for chaining.
-   * @throws Will throw an error if item is missing required properties or has currency mismatch.
+   * @throws Will throw an error if item is missing required properties.
    */
   pushCOS(item: COSItem): this {
-    if (!item.id) throw new Error("COS item must have an id");
-    if (!item.item?.trim()) throw new Error("COS item must have a name");
-    if (item.quantity <= 0)
-      throw new Error("COS quantity must be greater than zero");
-    this.assertCurrency(item.unitCost);
-    item.subtotal = item.unitCost.multiply(item.quantity);
-
-    this.metadata.cos.push(item);
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+    return this.runJournaled("pushCOS", [item], () => {
+      if (!item.id) throw new Error("COS item must have an id");
+      if (!item.item?.trim()) throw new Error("COS item must have a name");
+      if (item.quantity <= 0)
+        throw new Error("COS quantity must be greater than zero");
+      assertValidCOSSchedule(item);
+      this.assertConvertible(item.unitCost);
+      item.subtotal = item.unitCost.multiply(item.quantity);
+
+      this.metadata.cos.push(item);
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
   /**
    * Updates an existing COS item by ID.
    * @param {string} id - COS item ID.
-   * @param {Partial<Pick<COSItem, "quantity" | "unitCost" | "unit">>} updates - Fields to update.
+   * @param {Partial<Pick<COSItem, "quantity" | "unitCost" | "unit" | "item"> & COSSchedule>} updates - Fields to update.
    * @returns {MajikSubscription} - Returns self for chaining.
    * @throws Will throw an error if the COS item does not exist or has invalid updates.
    */
   updateCOS(
     id: string,
-    updates: Partial<Pick<COSItem, "quantity" | "unitCost" | "unit" | "item">>
+    updates: Partial<Pick<COSItem, "quantity" | "unitCost" | "unit" | "item">> &
+      COSSchedule
   ): this {
-    const item = this.metadata.cos.find((c) => c.id === id);
-    if (!item) throw new Error(`COS item ${id} not found`);
+    return this.runJournaled("updateCOS", [id, updates], () => {
+      const item = this.metadata.cos.find((c) => c.id === id);
+      if (!item) throw new Error(`COS item ${id} not found`);
+
+      const { quantity, unitCost, unit, item: name, ...schedule } = updates;
+      if (quantity !== undefined && quantity <= 0)
+        throw new Error("Quantity must be positive");
+      if (unitCost) this.assertConvertible(unitCost);
+      assertValidCOSSchedule({ ...item, ...schedule });
+
+      Object.assign(item, schedule);
+      if (quantity !== undefined) item.quantity = quantity;
+      if (unitCost) item.unitCost = unitCost;
+      if (!!name?.trim()) item.item = name;
+      item.unit = unit ?? item.unit;
+      item.subtotal = item.unitCost.multiply(item.quantity);
 
-    if (updates.quantity !== undefined) {
-      if (updates.quantity <= 0) throw new Error("Quantity must be positive");
-      item.quantity = updates.quantity;
-    }
-
-    if (updates.unitCost) {
-      this.assertCurrency(updates.unitCost);
-      item.unitCost = updates.unitCost;
-    }
-
-    if (!!updates?.item?.trim()) {
-      item.item = updates.item;
-    }
-
-    item.unit = updates.unit ?? item.unit;
-    item.subtotal = item.unitCost.multiply(item.quantity);
-
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
   /**
    * Replaces all COS items with a new array.
    * @param {COSItem[]} items - Array of COS items.
    * @returns {MajikSubscription} - Returns self for chaining.
-   * @throws Will throw an error if items are missing required properties or have currency mismatch.
+   * @throws Will throw an error if items are missing required properties.
    */
   setCOS(items: COSItem[]): this {
-    items.forEach((item) => {
-      if (
-        !item.id ||
-        !item.item ||
-        !item.unitCost ||
-        item.quantity == null ||
-        !item.subtotal
-      ) {
-        throw new Error(
-          "Each COSItem must have id, item, unitCost, quantity, and subtotal"
-        );
-      }
-      this.assertCurrency(item.unitCost);
+    return this.runJournaled("setCOS", [items], () => {
+      items.forEach((item) => {
+        if (
+          !item.id ||
+          !item.item ||
+          !item.unitCost ||
+          item.quantity == null ||
+          !item.subtotal
+        ) {
+          throw new Error(
+            "Each COSItem must have id, item, unitCost, quantity, and subtotal"
+          );
+        }
+        assertValidCOSSchedule(item);
+        this.assertConvertible(item.unitCost);
+      });
+      this.metadata.cos = [...items];
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
     });
-    this.metadata.cos = [...items];
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
   }
 
   /**
@@ -465,791 +811,4475 @@ export class MajikSubscription {
    * @throws Will throw an error if the COS item does not exist.
    */
   removeCOS(id: string): this {
-    const index = this.metadata.cos.findIndex((c) => c.id === id);
-    if (index === -1) throw new Error(`COS item with id ${id} not found`);
-    this.metadata.cos.splice(index, 1);
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+    return this.runJournaled("removeCOS", [id], () => {
+      const index = this.metadata.cos.findIndex((c) => c.id === id);
+      if (index === -1) throw new Error(`COS item with id ${id} not found`);
+      this.metadata.cos.splice(index, 1);
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
   /** Clears all COS items. */
   clearCostBreakdown(): this {
-    this.metadata.cos.length = 0;
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+    return this.runJournaled("clearCostBreakdown", [], () => {
+      this.metadata.cos.length = 0;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
-  /* ------------------ CAPACITY MANAGEMENT ------------------ */
+  /* ------------------ METERED USAGE ------------------ */
 
   /**
-   * Returns true if the subscription has at least one Capacity Plan item.
+   * Returns all metered price components.
+   * @returns {readonly MeteredComponent[]} - Array of metered components.
    */
-  hasCapacity(): boolean {
-    return (
-      Array.isArray(this.metadata.capacityPlan) &&
-      this.metadata.capacityPlan.length > 0
-    );
+  get meteredComponents(): readonly MeteredComponent[] {
+    return this.metadata.meteredComponents ?? [];
   }
 
   /**
-   * Returns the earliest (initial) YYYYMM from the capacity plan.
+   * Adds a metered price component billed on usage above an included allowance.
+   * @param {string} name - Component name, e.g. "API calls".
+   * @param {MajikMoney} unitPrice - Price per unit of usage above the allowance.
+   * @param {number} [includedQuantity=0] - Allowance included per paying subscriber per month.
+   * @param {string} [unit="unit"] - Usage unit, e.g. "call", "GB".
+   * @param {PriceTier[]} [tiers] - Optional graduated tiers for the overage.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the component is invalid.
    */
-  get earliestCapacityMonth(): YYYYMM | null {
-    if (!this.hasCapacity()) return null;
-
-    const supply = this.metadata.capacityPlan!;
-
-    return supply.reduce(
-      (earliest, current) =>
-        current.month < earliest ? current.month : earliest,
-      supply[0].month
+  addMeteredComponent(
+    name: string,
+    unitPrice: MajikMoney,
+    includedQuantity: number = 0,
+    unit: string = "unit",
+    tiers?: PriceTier[]
+  ): this {
+    return this.runJournaled(
+      "addMeteredComponent",
+      [name, unitPrice, includedQuantity, unit, tiers],
+      () => {
+        const component: MeteredComponent = {
+          id: autogenerateID("mjksubmeter"),
+          name,
+          unit,
+          includedQuantity,
+          unitPrice,
+          tiers,
+        };
+        this.assertValidMeteredComponent(component);
+
+        this.metadata.meteredComponents ??= [];
+        this.metadata.meteredComponents.push(component);
+        this.updateTimestamp();
+        this.markFinanceDirty();
+        return this;
+      }
     );
   }
 
   /**
-   * Returns the most recent (latest) YYYYMM from the capacity plan.
+   * Updates an existing metered component by ID.
+   * @param {string} id - Metered component ID.
+   * @param {Partial<Omit<MeteredComponent, "id">>} updates - Fields to update.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the component does not exist or the result is invalid.
    */
-  get latestCapacityMonth(): YYYYMM | null {
-    if (!this.hasCapacity()) return null;
+  updateMeteredComponent(
+    id: string,
+    updates: Partial<Omit<MeteredComponent, "id">>
+  ): this {
+    return this.runJournaled("updateMeteredComponent", [id, updates], () => {
+      const index =
+        this.metadata.meteredComponents?.findIndex((c) => c.id === id) ?? -1;
+      if (index === -1) throw new Error(`Metered component ${id} not found`);
+
+      const updated = {
+        ...this.metadata.meteredComponents![index],
+        ...updates,
+        id,
+      };
+      this.assertValidMeteredComponent(updated);
+      this.metadata.meteredComponents![index] = updated;
 
-    const supply = this.metadata.capacityPlan!;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
 
-    return supply.reduce(
-      (latest, current) => (current.month > latest ? current.month : latest),
-      supply[0].month
-    );
+  /**
+   * Removes a metered component by ID, along with its usage in the capacity plan.
+   * @param {string} id - Metered component ID.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the component does not exist.
+   */
+  removeMeteredComponent(id: string): this {
+    return this.runJournaled("removeMeteredComponent", [id], () => {
+      const index =
+        this.metadata.meteredComponents?.findIndex((c) => c.id === id) ?? -1;
+      if (index === -1)
+        throw new Error(`Metered component with id ${id} not found`);
+      this.metadata.meteredComponents!.splice(index, 1);
+      this.metadata.capacityPlan?.forEach((s) => {
+        if (s.usage) delete s.usage[id];
+      });
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
-  get capacity(): MonthlyCapacity[] {
-    return this.metadata?.capacityPlan || [];
+  /** Clears all metered components and recorded usage. */
+  clearMeteredComponents(): this {
+    return this.runJournaled("clearMeteredComponents", [], () => {
+      this.metadata.meteredComponents = [];
+      this.metadata.capacityPlan?.forEach((s) => delete s.usage);
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
   /**
-   * Returns the total capacity units across all months.
+   * Records projected or actual usage of a metered component on a capacity plan entry.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {string} componentId - Metered component ID.
+   * @param {number} quantity - Total usage in the month across all subscribers.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the month is not in the capacity plan or the component does not exist.
    */
-  get totalCapacity(): number {
-    const capacity = this.metadata.capacityPlan ?? [];
-    return capacity.reduce(
-      (sum, c) => sum + c.capacity + (c.adjustment ?? 0),
-      0
-    );
+  setUsage(month: YYYYMM, componentId: string, quantity: number): this {
+    return this.runJournaled("setUsage", [month, componentId, quantity], () => {
+      if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+      if (!this.meteredComponents.some((c) => c.id === componentId)) {
+        throw new Error(`Metered component ${componentId} not found`);
+      }
+      if (!Number.isFinite(quantity) || quantity < 0) {
+        throw new Error("Usage must be a non-negative number");
+      }
+      const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+      if (!plan) throw new Error(`No capacity plan entry for ${month}`);
+
+      plan.usage = { ...plan.usage, [componentId]: quantity };
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
   /**
-   * Returns the average capacity per month.
-   * Includes adjustments.
+   * Returns the recorded usage of a metered component in a month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {string} componentId - Metered component ID.
+   * @returns {number} - Total usage, or 0 if none was recorded.
    */
-  get averageMonthlyCapacity(): number {
-    const capacity = this.metadata.capacityPlan ?? [];
-    if (capacity.length === 0) return 0;
-
-    return this.totalCapacity / capacity.length;
+  getUsage(month: YYYYMM, componentId: string): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    return plan?.usage?.[componentId] ?? 0;
   }
 
   /**
-   * Returns the MonthlyCapacity entry with the highest supply.
-   * Includes adjustments.
+   * Returns usage revenue for a month: overage above the included allowance of the paying subscribers.
+   * Suspended or cancelled months earn no usage revenue.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {string} [componentId] - Limit to a single component. Defaults to all components.
+   * @returns {MajikMoney} - Usage revenue for the month.
    */
-  get maxSupplyMonth(): MonthlyCapacity | null {
-    const supply = this.metadata.capacityPlan ?? [];
-    if (supply.length === 0) return null;
+  getUsageRevenue(month: YYYYMM, componentId?: string): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan?.usage || !this.isBillable(month)) return this.DEFAULT_ZERO();
+
+    const units = this.getBillableUnits(month);
+    return this.meteredComponents
+      .filter((c) => !componentId || c.id === componentId)
+      .reduce(
+        (acc, c) =>
+          acc.add(computeMeteredCharge(c, plan.usage![c.id] ?? 0, units)),
+        this.DEFAULT_ZERO()
+      );
+  }
 
-    return supply.reduce((max, current) => {
-      const maxUnits = max.capacity + (max.adjustment ?? 0);
-      const currUnits = current.capacity + (current.adjustment ?? 0);
-      return currUnits > maxUnits ? current : max;
-    });
+  /**
+   * Ensures a metered component is well-formed.
+   * @private
+   * @throws {Error} - Throws if any field is invalid.
+   */
+  private assertValidMeteredComponent(component: MeteredComponent): void {
+    if (!component.name?.trim())
+      throw new Error("Metered component name cannot be empty");
+    if (!component.unit?.trim())
+      throw new Error("Metered component unit cannot be empty");
+    if (
+      !Number.isFinite(component.includedQuantity) ||
+      component.includedQuantity < 0
+    ) {
+      throw new Error("Included quantity must be a non-negative number");
+    }
+    this.assertCurrency(component.unitPrice);
+    if (component.tiers?.length) {
+      assertValidTiers(component.tiers, component.unitPrice.currency.code);
+    }
   }
 
+  /* ------------------ ADD-ONS ------------------ */
+
   /**
-   * Returns the MonthlyCapacity entry with the lowest supply.
-   * Includes adjustments.
+   * Returns all add-ons.
+   * @returns {readonly SubscriptionAddOn[]} - Array of add-ons.
    */
-  get minSupplyMonth(): MonthlyCapacity | null {
-    const supply = this.metadata.capacityPlan ?? [];
-    if (supply.length === 0) return null;
+  get addOns(): readonly SubscriptionAddOn[] {
+    return this.metadata.addOns ?? [];
+  }
 
-    return supply.reduce((min, current) => {
-      const minUnits = min.capacity + (min.adjustment ?? 0);
-      const currUnits = current.capacity + (current.adjustment ?? 0);
-      return currUnits < minUnits ? current : min;
+  /**
+   * Adds an add-on priced on top of the base subscription.
+   * @param {string} name - Add-on name, e.g. "Priority Support".
+   * @param {SubscriptionRate} rate - The add-on's own rate, pricing model and billing cycle.
+   * @param {number | Record<YYYYMM, number>} volume - Attach rate (share of paying base subscribers, 0–1) or absolute subscribers per month.
+   * @param {COSItem[]} [cos=[]] - COS items of the add-on, scaled by its subscribers.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the add-on is invalid.
+   */
+  addAddOn(
+    name: string,
+    rate: SubscriptionRate,
+    volume: number | Record<YYYYMM, number>,
+    cos: COSItem[] = []
+  ): this {
+    return this.runJournaled("addAddOn", [name, rate, volume, cos], () => {
+      const addOn: SubscriptionAddOn = {
+        id: autogenerateID("mjksubaddon"),
+        name,
+        rate,
+        cos: [...cos],
+        attachRate: typeof volume === "number" ? volume : undefined,
+        counts: typeof volume === "number" ? undefined : { ...volume },
+      };
+      this.assertValidAddOn(addOn);
+
+      this.metadata.addOns ??= [];
+      this.metadata.addOns.push(addOn);
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
     });
   }
 
   /**
-   * Generates and replaces the capacity plan automatically.
-   *
-   * @param months - Number of months to generate from the start date.
-   * @param amount - Base units for the first month.
-   * @param growthRate - Optional growth rate per month (e.g. 0.03 = +3%).
-   * @param startDate - Date | ISO date | YYYYMM. Defaults to current month.
-   * @returns {this} Updated subscription instance.
+   * Updates an existing add-on by ID.
+   * @param {string} id - Add-on ID.
+   * @param {Partial<Omit<SubscriptionAddOn, "id">>} updates - Fields to update.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the add-on does not exist or the result is invalid.
    */
-  generateCapacityPlan(
-    months: number,
-    amount: number,
-    growthRate: number = 0,
-    startDate?: StartDateInput
+  updateAddOn(
+    id: string,
+    updates: Partial<Omit<SubscriptionAddOn, "id">>
   ): this {
-    if (!Number.isInteger(months) || months <= 0) {
-      throw new Error("Months must be a positive integer");
-    }
-
-    if (!Number.isFinite(amount) || amount < 0) {
-      throw new Error("Amount must be a non-negative number");
-    }
-
-    if (growthRate < 0) {
-      throw new Error("Growth rate cannot be negative");
-    }
+    return this.runJournaled("updateAddOn", [id, updates], () => {
+      const index = this.metadata.addOns?.findIndex((a) => a.id === id) ?? -1;
+      if (index === -1) throw new Error(`Add-on ${id} not found`);
 
-    const start = normalizeStartDate(startDate);
-    const supplyPlan: MonthlyCapacity[] = [];
+      const updated = { ...this.metadata.addOns![index], ...updates, id };
+      this.assertValidAddOn(updated);
+      this.metadata.addOns![index] = updated;
 
-    let currentUnits = amount;
-
-    for (let i = 0; i < months; i++) {
-      const date = new Date(start.getFullYear(), start.getMonth() + i, 1);
-
-      const yyyy = date.getFullYear();
-      const mm = String(date.getMonth() + 1).padStart(2, "0");
-      const month = `${yyyy}-${mm}` as YYYYMM;
-
-      supplyPlan.push({
-        month,
-        capacity: Math.round(currentUnits),
-      });
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
 
-      if (growthRate > 0) {
-        currentUnits *= 1 + growthRate;
+  /**
+   * Adds a COS item to an add-on.
+   * @param {string} addOnId - Add-on ID.
+   * @param {string} name - COS item name.
+   * @param {MajikMoney} unitCost - Cost per unit.
+   * @param {number} [quantity=1] - Number of units.
+   * @param {string} [unit] - Optional unit (e.g., "subscriber", "month").
+   * @param {COSSchedule} [schedule] - Optional cost behaviour: kind, step size, and effective months.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the add-on does not exist or the item is invalid.
+   */
+  addAddOnCOS(
+    addOnId: string,
+    name: string,
+    unitCost: MajikMoney,
+    quantity: number = 1,
+    unit?: string,
+    schedule: COSSchedule = {}
+  ): this {
+    return this.runJournaled(
+      "addAddOnCOS",
+      [addOnId, name, unitCost, quantity, unit, schedule],
+      () => {
+        const addOn = this.metadata.addOns?.find((a) => a.id === addOnId);
+        if (!addOn) throw new Error(`Add-on ${addOnId} not found`);
+        if (!name.trim()) throw new Error("COS name cannot be empty");
+        if (quantity <= 0)
+          throw new Error("COS quantity must be greater than zero");
+        this.assertConvertible(unitCost);
+
+        const newItem: COSItem = {
+          id: autogenerateID("mjksubcost"),
+          item: name,
+          quantity,
+          unitCost,
+          unit,
+          subtotal: unitCost.multiply(quantity),
+          ...schedule,
+        };
+        assertValidCOSSchedule(newItem);
+
+        addOn.cos.push(newItem);
+        this.updateTimestamp();
+        this.markFinanceDirty();
+        return this;
       }
-    }
-
-    return this.setCapacity(supplyPlan);
+    );
   }
 
   /**
-   * Normalizes all supply plan entries to have the same unit amount.
-   *
-   * - Throws if supply plan is empty
-   * - If only one entry exists, does nothing
-   * - If multiple entries exist, sets all units to the provided amount
-   *
-   * @param amount - Unit amount to apply to all months
-   * @returns {this} Updated subscription instance
+   * Removes an add-on by ID.
+   * @param {string} id - Add-on ID.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the add-on does not exist.
    */
-  normalizeCapacityUnits(amount: number): this {
-    if (!Number.isFinite(amount) || amount < 0) {
-      throw new Error("Amount must be a non-negative number");
-    }
-
-    const supply = this.metadata.capacityPlan;
-
-    if (!supply || supply.length === 0) {
-      throw new Error("Supply plan is empty");
-    }
-
-    if (supply.length === 1) {
+  removeAddOn(id: string): this {
+    return this.runJournaled("removeAddOn", [id], () => {
+      const index = this.metadata.addOns?.findIndex((a) => a.id === id) ?? -1;
+      if (index === -1) throw new Error(`Add-on with id ${id} not found`);
+      this.metadata.addOns!.splice(index, 1);
+      this.updateTimestamp();
+      this.markFinanceDirty();
       return this;
-    }
-
-    supply.forEach((s) => {
-      s.capacity = amount;
     });
-
-    this.updateTimestamp();
-    this.markFinanceDirty();
-
-    return this;
   }
 
-  recomputeCapacityPeriod(
-    start: YYYYMM,
-    end: YYYYMM,
-    mode: CapacityPeriodResizeMode = CapacityPeriodResizeMode.DEFAULT
-  ): this {
-    if (!isValidYYYYMM(start) || !isValidYYYYMM(end)) {
-      throw new Error("Invalid YYYYMM period");
-    }
-
-    if (!this.hasCapacity()) {
-      throw new Error("No existing capacity plan to recompute");
-    }
+  /** Clears all add-ons. */
+  clearAddOns(): this {
+    return this.runJournaled("clearAddOns", [], () => {
+      this.metadata.addOns = [];
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
 
-    if (start > end) {
-      throw new Error("Start month must be <= end month");
-    }
+  /**
+   * Returns the number of subscribers of an add-on in a month.
+   * Uses the absolute count for the month when set, otherwise the attach rate times paying base subscribers.
+   * Suspended or cancelled months have no add-on subscribers.
+   * @param {string} addOnId - Add-on ID.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {number} - Add-on subscribers.
+   */
+  getAddOnSubscribers(addOnId: string, month: YYYYMM): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const addOn = this.metadata.addOns?.find((a) => a.id === addOnId);
+    if (!addOn) throw new Error(`Add-on ${addOnId} not found`);
 
-    const newLength = monthsInPeriod(start, end);
-    const oldPlan = [...this.metadata.capacityPlan!];
-    const oldLength = oldPlan.length;
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan || !this.isBillable(month)) return 0;
 
-    const newPlan: MonthlyCapacity[] = [];
+    const count = addOn.counts?.[month];
+    if (count !== undefined) return count;
+    return (addOn.attachRate ?? 0) * this.getBillableUnits(month);
+  }
 
-    if (mode === CapacityPeriodResizeMode.DEFAULT) {
-      for (let i = 0; i < newLength; i++) {
-        const source = i < oldLength ? oldPlan[i] : oldPlan[oldLength - 1]; // extend using last known value
+  /**
+   * Returns add-on revenue for a month (accrual basis).
+   * Each add-on rate is normalized to its monthly equivalent using its own billing cycle.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {string} [addOnId] - Limit to a single add-on. Defaults to all add-ons.
+   * @returns {MajikMoney} - Add-on revenue for the month.
+   */
+  getAddOnRevenue(month: YYYYMM, addOnId?: string): MajikMoney {
+    return this.selectAddOns(addOnId).reduce((acc, a) => {
+      const units = this.getAddOnSubscribers(a.id, month);
+      return acc.add(
+        computeRateCharge(a.rate, units).multiply(
+          billingCycleMonthlyFactor(a.rate.billingCycle)
+        )
+      );
+    }, this.DEFAULT_ZERO());
+  }
 
-        newPlan.push({
-          month: offsetMonthsToYYYYMM(start, i),
-          capacity: source.capacity,
-          adjustment: source.adjustment,
-        });
-      }
-    }
+  /**
+   * Returns add-on COS for a month, converted to the base currency.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {string} [addOnId] - Limit to a single add-on. Defaults to all add-ons.
+   * @returns {MajikMoney} - Add-on COS for the month.
+   */
+  getAddOnCOS(month: YYYYMM, addOnId?: string): MajikMoney {
+    return this.selectAddOns(addOnId).reduce((acc, a) => {
+      const units = this.getAddOnSubscribers(a.id, month);
+      return a.cos.reduce(
+        (sum, c) =>
+          sum.add(
+            this.convert(
+              computeCOSItemCost(c, month, units),
+              this.baseCurrency,
+              month
+            )
+          ),
+        acc
+      );
+    }, this.DEFAULT_ZERO());
+  }
 
-    if (mode === CapacityPeriodResizeMode.DISTRIBUTE) {
-      const total = this.totalCapacity;
-      const base = Math.floor(total / newLength);
-      let remainder = total % newLength;
+  /**
+   * Returns add-on revenue invoiced in a month (cash basis), following each add-on's billing cycle.
+   * @private
+   */
+  private getAddOnCashRevenue(month: YYYYMM): MajikMoney {
+    const anchor = this.earliestCapacityMonth;
+    if (!anchor) return this.DEFAULT_ZERO();
+    return this.addOns.reduce((acc, a) => {
+      const invoices = billingEventsInMonth(
+        a.rate.billingCycle,
+        anchor,
+        month,
+        a.rate.anchorDay
+      );
+      if (invoices === 0) return acc;
+      const units = this.getAddOnSubscribers(a.id, month);
+      return acc.add(computeRateCharge(a.rate, units).multiply(invoices));
+    }, this.DEFAULT_ZERO());
+  }
 
-      for (let i = 0; i < newLength; i++) {
-        const extra = remainder > 0 ? 1 : 0;
-        remainder--;
+  /**
+   * Returns all add-ons, or only the one with the given ID.
+   * @private
+   * @throws {Error} - Throws if an ID is given and the add-on does not exist.
+   */
+  private selectAddOns(addOnId?: string): readonly SubscriptionAddOn[] {
+    if (!addOnId) return this.addOns;
+    const addOn = this.addOns.find((a) => a.id === addOnId);
+    if (!addOn) throw new Error(`Add-on ${addOnId} not found`);
+    return [addOn];
+  }
 
-        newPlan.push({
-          month: offsetMonthsToYYYYMM(start, i),
-          capacity: base + extra,
-        });
-      }
+  /**
+   * Ensures an add-on is well-formed.
+   * @private
+   * @throws {Error} - Throws if any field is invalid.
+   */
+  private assertValidAddOn(addOn: SubscriptionAddOn): void {
+    if (!addOn.name?.trim()) throw new Error("Add-on name cannot be empty");
+    if (!addOn.rate?.amount) throw new Error("Add-on requires a rate");
+    this.assertCurrency(addOn.rate.amount);
+    assertValidPricing(addOn.rate);
+
+    if (addOn.attachRate === undefined && !addOn.counts) {
+      throw new Error("Add-on requires an attach rate or monthly counts");
     }
+    if (
+      addOn.attachRate !== undefined &&
+      (!Number.isFinite(addOn.attachRate) ||
+        addOn.attachRate < 0 ||
+        addOn.attachRate > 1)
+    ) {
+      throw new Error("Attach rate must be between 0 and 1");
+    }
+    Object.entries(addOn.counts ?? {}).forEach(([month, count]) => {
+      if (!isValidYYYYMM(month)) throw new Error(`Invalid month: ${month}`);
+      if (!Number.isFinite(count) || count < 0) {
+        throw new Error("Add-on counts must be non-negative numbers");
+      }
+    });
+    addOn.cos.forEach((c) => {
+      assertValidCOSSchedule(c);
+      this.assertConvertible(c.unitCost);
+    });
+  }
 
-    this.metadata.capacityPlan = newPlan;
-    this.updateTimestamp();
-    this.markFinanceDirty();
+  /* ------------------ DISCOUNT MANAGEMENT ------------------ */
 
-    return this;
+  /**
+   * Returns true if the subscription has at least one discount.
+   */
+  hasDiscounts(): boolean {
+    return (
+      Array.isArray(this.metadata.discounts) &&
+      this.metadata.discounts.length > 0
+    );
   }
 
   /**
-   * Sets the entire monthly capacity plan.
-   * @param {MonthlyCapacity[]} capacityPlan - Array of MonthlyCapacity.
-   * @returns {MajikSubscription} - Returns self for chaining.
-   * @throws Will throw an error if month format or capacity is invalid.
+   * Returns all discounts.
+   * @returns {readonly SubscriptionDiscount[]} - Array of discounts.
    */
-  setCapacity(capacityPlan: MonthlyCapacity[]): this {
-    capacityPlan.forEach((s) => {
-      if (!isValidYYYYMM(s.month)) throw new Error(`Invalid month: ${s.month}`);
-      if (typeof s.capacity !== "number")
-        throw new Error("Capacity must be a number");
-    });
-    this.metadata.capacityPlan = [...capacityPlan];
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+  get discounts(): readonly SubscriptionDiscount[] {
+    return this.metadata.discounts ?? [];
   }
 
   /**
-   * Adds capacity for a specific month.
-   * @param {YYYYMM} month - YYYY-MM string.
-   * @param {number} units - Number of subscription units for the month.
-   * @param {number} [adjustment] - Optional adjustment to capacity.
+   * Adds a new discount.
+   * @param {string} name - Discount or coupon name.
+   * @param {DiscountType} type - Percentage or fixed amount. Use Enum `DiscountType`.
+   * @param {number | MajikMoney} value - Ratio for percentages (0.2 = 20%), monthly amount per subscriber for fixed amounts.
+   * @param {YYYYMM} startMonth - First month the discount applies.
+   * @param {number} [durationMonths] - Number of months it applies. Omit for forever.
+   * @param {number} [subscriberShare=1] - Share of subscribers it applies to (0–1).
    * @returns {MajikSubscription} - Returns self for chaining.
-   * @throws Will throw an error if month already exists.
+   * @throws Will throw an error if the discount is invalid.
    */
-  addCapacity(month: YYYYMM, units: number, adjustment?: number): this {
-    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    this.metadata.capacityPlan ??= [];
-    if (this.metadata.capacityPlan.some((s) => s.month === month)) {
-      throw new Error(
-        `Month ${month} already exists. Use updateCapacityUnits or updateCapacityAdjustment`
-      );
-    }
-    this.metadata.capacityPlan.push({ month, capacity: units, adjustment });
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+  addDiscount(
+    name: string,
+    type: DiscountType,
+    value: number | MajikMoney,
+    startMonth: YYYYMM,
+    durationMonths?: number,
+    subscriberShare: number = 1
+  ): this {
+    return this.runJournaled(
+      "addDiscount",
+      [name, type, value, startMonth, durationMonths, subscriberShare],
+      () => {
+        const discount: SubscriptionDiscount = {
+          id: autogenerateID("mjksubdisc"),
+          name,
+          type,
+          percentage: typeof value === "number" ? value : undefined,
+          amount: typeof value === "number" ? undefined : value,
+          startMonth,
+          durationMonths,
+          subscriberShare,
+        };
+        this.assertValidDiscount(discount);
+
+        this.metadata.discounts ??= [];
+        this.metadata.discounts.push(discount);
+        this.updateTimestamp();
+        this.markFinanceDirty();
+        return this;
+      }
+    );
   }
 
   /**
-   * Updates capacity units for a month.
-   * @param {YYYYMM} month - YYYY-MM string.
-   * @param {number} units - New subscription units.
+   * Updates an existing discount by ID.
+   * @param {string} id - Discount ID.
+   * @param {Partial<Omit<SubscriptionDiscount, "id">>} updates - Fields to update.
    * @returns {MajikSubscription} - Returns self for chaining.
-   * @throws Will throw an error if month does not exist.
+   * @throws Will throw an error if the discount does not exist or the result is invalid.
    */
-  updateCapacityUnits(month: YYYYMM, units: number): this {
-    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
-    if (!plan) throw new Error(`Month ${month} not found`);
-    plan.capacity = units;
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+  updateDiscount(
+    id: string,
+    updates: Partial<Omit<SubscriptionDiscount, "id">>
+  ): this {
+    return this.runJournaled("updateDiscount", [id, updates], () => {
+      const index =
+        this.metadata.discounts?.findIndex((d) => d.id === id) ?? -1;
+      if (index === -1) throw new Error(`Discount ${id} not found`);
+
+      const updated = { ...this.metadata.discounts![index], ...updates, id };
+      this.assertValidDiscount(updated);
+      this.metadata.discounts![index] = updated;
+
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
   /**
-   * Updates capacity adjustment for a month.
-   * @param {YYYYMM} month - YYYY-MM string.
-   * @param {number} [adjustment] - Optional adjustment value.
+   * Removes a discount by ID.
+   * @param {string} id - Discount ID.
    * @returns {MajikSubscription} - Returns self for chaining.
-   * @throws Will throw an error if month does not exist.
+   * @throws Will throw an error if the discount does not exist.
    */
-  updateCapacityAdjustment(month: YYYYMM, adjustment?: number): this {
-    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
-    if (!plan) throw new Error(`Month ${month} not found`);
-    plan.adjustment = adjustment;
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
+  removeDiscount(id: string): this {
+    return this.runJournaled("removeDiscount", [id], () => {
+      const index =
+        this.metadata.discounts?.findIndex((d) => d.id === id) ?? -1;
+      if (index === -1) throw new Error(`Discount with id ${id} not found`);
+      this.metadata.discounts!.splice(index, 1);
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /** Clears all discounts. */
+  clearDiscounts(): this {
+    return this.runJournaled("clearDiscounts", [], () => {
+      this.metadata.discounts = [];
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
   /**
-   * Removes a month from the capacity plan.
-   * @param {YYYYMM} month - YYYY-MM string.
-   * @returns {MajikSubscription} - Returns self for chaining.
-   * @throws Will throw an error if month does not exist.
+   * Returns the total discount granted in a specific month.
+   * Percentage discounts apply to the revenue of the covered subscribers;
+   * fixed amounts are capped at that revenue. The total never exceeds the month's revenue.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - Total discount for the month.
    */
-  removeCapacity(month: YYYYMM): this {
+  getDiscountAmount(month: YYYYMM): MajikMoney {
     if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    const index = this.metadata.capacityPlan?.findIndex(
-      (s) => s.month === month
-    );
-    if (index === undefined || index === -1)
-      throw new Error(`Month ${month} not found`);
-    this.metadata.capacityPlan!.splice(index, 1);
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
-  }
+    const revenue = this.getRevenue(month);
+    if (revenue.isZero() || !this.hasDiscounts()) return this.DEFAULT_ZERO();
 
-  /** Clears the entire capacity plan. */
-  clearCapacity(): this {
-    this.metadata.capacityPlan = [];
-    this.updateTimestamp();
-    this.markFinanceDirty();
-    return this;
-  }
+    const units = Math.max(0, this.getBillableUnits(month));
 
-  /* ------------------ FINANCE HELPERS ------------------ */
+    const total = this.metadata.discounts!.reduce((acc, d) => {
+      if (!isDiscountActive(d, month)) return acc;
 
-  /** Computes gross revenue across all months. */
-  private computeGrossRevenue(): MajikMoney {
-    const plan = this.metadata.capacityPlan ?? [];
-    return plan.reduce(
-      (acc, s) =>
-        acc.add(this.rate.amount.multiply(s.capacity + (s.adjustment ?? 0))),
-      this.DEFAULT_ZERO()
-    );
-  }
+      const coveredRevenue = revenue.multiply(d.subscriberShare);
+      if (d.type === DiscountType.PERCENTAGE) {
+        return acc.add(coveredRevenue.multiply(d.percentage!));
+      }
 
-  /** Computes gross COS across all months. */
-  private computeGrossCOS(): MajikMoney {
-    const plan = this.metadata.capacityPlan ?? [];
-    const unitCOS = this.metadata.cos.reduce(
-      (acc, c) => acc.add(c.subtotal),
-      this.DEFAULT_ZERO()
-    );
-    return plan.reduce(
-      (acc, s) => acc.add(unitCOS.multiply(s.capacity + (s.adjustment ?? 0))),
-      this.DEFAULT_ZERO()
-    );
-  }
+      const fixed = d.amount!.multiply(units * d.subscriberShare);
+      return acc.add(
+        fixed.toMajor() > coveredRevenue.toMajor() ? coveredRevenue : fixed
+      );
+    }, this.DEFAULT_ZERO());
 
-  /** Computes gross profit (revenue - COS). */
-  private computeGrossProfit(): MajikMoney {
-    return this.computeGrossRevenue().subtract(this.computeGrossCOS());
+    return total.toMajor() > revenue.toMajor() ? revenue : total;
   }
 
-  /** Recomputes and stores aggregate finance info. */
-  private recomputeFinance(): void {
+  /**
+   * Ensures a discount is well-formed.
+   * @private
+   * @throws {Error} - Throws if any field is invalid.
+   */
+  private assertValidDiscount(discount: SubscriptionDiscount): void {
+    if (!discount.name?.trim()) throw new Error("Discount name cannot be empty");
+    if (!Object.values(DiscountType).includes(discount.type)) {
+      throw new Error("Invalid discount type");
+    }
+    if (!isValidYYYYMM(discount.startMonth)) {
+      throw new Error(`Invalid month: ${discount.startMonth}`);
+    }
+    if (
+      discount.durationMonths !== undefined &&
+      (!Number.isInteger(discount.durationMonths) ||
+        discount.durationMonths <= 0)
+    ) {
+      throw new Error("Discount duration must be a positive integer");
+    }
+    if (
+      !Number.isFinite(discount.subscriberShare) ||
+      discount.subscriberShare < 0 ||
+      discount.subscriberShare > 1
+    ) {
+      throw new Error("Subscriber share must be between 0 and 1");
+    }
+
+    if (discount.type === DiscountType.PERCENTAGE) {
+      const pct = discount.percentage;
+      if (pct === undefined || !Number.isFinite(pct) || pct < 0 || pct > 1) {
+        throw new Error("Discount percentage must be between 0 and 1");
+      }
+    } else {
+      if (!discount.amount) throw new Error("Fixed discount requires an amount");
+      this.assertCurrency(discount.amount);
+    }
+  }
+
+  /* ------------------ TAX CONFIGURATION ------------------ */
+
+  /**
+   * Returns the tax configuration, if any.
+   */
+  get taxConfig(): SubscriptionTaxConfig | undefined {
+    return this.metadata.tax;
+  }
+
+  /**
+   * Sets the tax configuration (e.g. 12% VAT, inclusive pricing, 2% withholding).
+   * @param {SubscriptionTaxConfig} config - Tax rates, inclusive flag and optional withholding rate.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if any rate is invalid.
+   */
+  setTaxConfig(config: SubscriptionTaxConfig): this {
+    return this.runJournaled("setTaxConfig", [config], () => {
+      if (!Array.isArray(config.rates)) {
+        throw new Error("Tax rates must be an array");
+      }
+      config.rates.forEach((r) => {
+        if (!r.name?.trim()) throw new Error("Tax name cannot be empty");
+        if (!Number.isFinite(r.rate) || r.rate < 0 || r.rate > 1) {
+          throw new Error("Tax rate must be between 0 and 1");
+        }
+      });
+      if (
+        config.withholdingRate !== undefined &&
+        (!Number.isFinite(config.withholdingRate) ||
+          config.withholdingRate < 0 ||
+          config.withholdingRate > 1)
+      ) {
+        throw new Error("Withholding rate must be between 0 and 1");
+      }
+
+      this.metadata.tax = {
+        rates: config.rates.map((r) => ({ ...r })),
+        inclusive: !!config.inclusive,
+        withholdingRate: config.withholdingRate,
+      };
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /** Removes the tax configuration. */
+  clearTaxConfig(): this {
+    return this.runJournaled("clearTaxConfig", [], () => {
+      this.metadata.tax = undefined;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /**
+   * Splits a month's revenue (after discounts) into net-of-tax revenue and taxes.
+   * With inclusive pricing the tax is carved out of the revenue; otherwise it is added on top.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {TaxBreakdown} - Tax lines, withholding and cash received for the month.
+   */
+  getTaxBreakdown(month: YYYYMM): TaxBreakdown {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const taxable = this.getRevenue(month).subtract(
+      this.getDiscountAmount(month)
+    );
+    const { netOfTax, lines, taxCollected } = this.computeTax(taxable);
+    const grossBilled = netOfTax.add(taxCollected);
+    const withholding = netOfTax.multiply(
+      this.metadata.tax?.withholdingRate ?? 0
+    );
+
+    return {
+      month,
+      netOfTax,
+      taxCollected,
+      lines,
+      grossBilled,
+      withholding,
+      cashReceived: grossBilled.subtract(withholding),
+    };
+  }
+
+  /**
+   * Splits a taxable amount into its net and tax lines under the tax configuration.
+   * @private
+   */
+  private computeTax(taxable: MajikMoney): {
+    netOfTax: MajikMoney;
+    lines: TaxLine[];
+    taxCollected: MajikMoney;
+  } {
+    const config = this.metadata.tax;
+    const rates = config?.rates ?? [];
+    const totalRate = rates.reduce((sum, r) => sum + r.rate, 0);
+
+    const netOfTax =
+      config?.inclusive && totalRate > 0
+        ? taxable.divide(1 + totalRate)
+        : taxable;
+
+    const lines = rates.map((r) => ({
+      name: r.name,
+      rate: r.rate,
+      amount: netOfTax.multiply(r.rate),
+    }));
+    const taxCollected = lines.reduce(
+      (acc, l) => acc.add(l.amount),
+      this.DEFAULT_ZERO()
+    );
+    return { netOfTax, lines, taxCollected };
+  }
+
+  /**
+   * Returns the tax collected for a specific month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - Sum of all tax lines.
+   */
+  getTaxCollected(month: YYYYMM): MajikMoney {
+    return this.getTaxBreakdown(month).taxCollected;
+  }
+
+  /* ------------------ CURRENCY & FX ------------------ */
+
+  /**
+   * Returns the currency the subscription is priced in (the rate currency).
+   */
+  get baseCurrency(): string {
+    return this.rate.amount.currency.code;
+  }
+
+  /**
+   * Returns the currency used for reporting. Defaults to the rate currency.
+   */
+  get reportingCurrency(): string {
+    return this.metadata.fx?.reportingCurrency || this.baseCurrency;
+  }
+
+  /**
+   * Sets the currency used for reporting.
+   * @param {string} currencyCode - ISO currency code, e.g. "USD".
+   * @returns {MajikSubscription} - Returns self for chaining.
+   */
+  setReportingCurrency(currencyCode: string): this {
+    return this.runJournaled("setReportingCurrency", [currencyCode], () => {
+      if (!currencyCode || typeof currencyCode !== "string")
+        throw new Error("Currency code must be a valid non-empty string.");
+      this.metadata.fx = {
+        ...this.metadata.fx,
+        reportingCurrency: currencyCode,
+      };
+      this.updateTimestamp();
+      return this;
+    });
+  }
+
+  /**
+   * Sets a static or per-month FX rate table. Serialized with the subscription.
+   * @param {FXRateTable} table - Exchange rates relative to `table.base`.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   */
+  setFXRates(table: FXRateTable): this {
+    return this.runJournaled("setFXRates", [table], () => {
+      if (!table?.base)
+        throw new Error("FX rate table must have a base currency");
+      if (!table.rates || typeof table.rates !== "object")
+        throw new Error("FX rate table must have rates");
+      this.metadata.fx = { ...this.metadata.fx, table };
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /**
+   * Sets a custom FX rate provider (e.g. a live rates service).
+   * Takes precedence over the rate table and is not serialized.
+   * @param {FXRateProvider | undefined} provider - Provider to use, or undefined to fall back to the rate table.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   */
+  setFXProvider(provider?: FXRateProvider): this {
+    this.fxProvider = provider;
+    this.markFinanceDirty();
+    return this;
+  }
+
+  /**
+   * Returns the active FX rate provider.
+   * @private
+   * @throws {Error} - Throws if neither a provider nor a rate table is configured.
+   */
+  private get fx(): FXRateProvider {
+    if (this.fxProvider) return this.fxProvider;
+    if (this.metadata.fx?.table)
+      return createFXRateProvider(this.metadata.fx.table);
+    throw new Error("No FX rates configured");
+  }
+
+  /**
+   * Converts money into another currency using the configured FX rates.
+   * @param {MajikMoney} money - Amount to convert.
+   * @param {string} [currencyCode] - Target currency. Defaults to the reporting currency.
+   * @param {YYYYMM} [month] - Month whose rate should be used. Uses static rates if omitted.
+   * @returns {MajikMoney} - Converted amount.
+   */
+  convert(
+    money: MajikMoney,
+    currencyCode?: string,
+    month?: YYYYMM
+  ): MajikMoney {
+    const target = currencyCode || this.reportingCurrency;
+    if (money.currency.code === target) return money;
+    return convertMoney(money, target, this.fx, month);
+  }
+
+  /**
+   * Returns all regional price points.
+   * @returns {readonly RegionalPrice[]} - Array of regional prices.
+   */
+  get regionalPrices(): readonly RegionalPrice[] {
+    return this.metadata.regionalPrices ?? [];
+  }
+
+  /**
+   * Adds a regional price point, charged per unit per billing cycle to a share of subscribers.
+   * @param {string} region - Region name, e.g. "US".
+   * @param {MajikMoney} amount - Price per unit per billing cycle, in any currency the FX rates can convert.
+   * @param {number} subscriberShare - Share of subscribers paying this price (0–1).
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the shares of all regional prices exceed 1.
+   */
+  addRegionalPrice(
+    region: string,
+    amount: MajikMoney,
+    subscriberShare: number
+  ): this {
+    return this.runJournaled(
+      "addRegionalPrice",
+      [region, amount, subscriberShare],
+      () => {
+        if (!region?.trim()) throw new Error("Region cannot be empty");
+        this.assertConvertible(amount);
+        if (
+          !Number.isFinite(subscriberShare) ||
+          subscriberShare <= 0 ||
+          subscriberShare > 1
+        ) {
+          throw new Error("Subscriber share must be between 0 and 1");
+        }
+
+        const totalShare = this.regionalPrices.reduce(
+          (sum, r) => sum + r.subscriberShare,
+          subscriberShare
+        );
+        if (totalShare > 1)
+          throw new Error("Regional subscriber shares cannot exceed 1");
+
+        this.metadata.regionalPrices ??= [];
+        this.metadata.regionalPrices.push({
+          id: autogenerateID("mjksubregion"),
+          region,
+          amount,
+          subscriberShare,
+        });
+        this.updateTimestamp();
+        this.markFinanceDirty();
+        return this;
+      }
+    );
+  }
+
+  /**
+   * Removes a regional price point by ID.
+   * @param {string} id - Regional price ID.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the regional price does not exist.
+   */
+  removeRegionalPrice(id: string): this {
+    return this.runJournaled("removeRegionalPrice", [id], () => {
+      const index =
+        this.metadata.regionalPrices?.findIndex((r) => r.id === id) ?? -1;
+      if (index === -1) throw new Error(`Regional price ${id} not found`);
+      this.metadata.regionalPrices!.splice(index, 1);
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /** Clears all regional price points. */
+  clearRegionalPrices(): this {
+    return this.runJournaled("clearRegionalPrices", [], () => {
+      this.metadata.regionalPrices = [];
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /* ------------------ CAPACITY MANAGEMENT ------------------ */
+
+  /**
+   * Returns true if the subscription has at least one Capacity Plan item.
+   */
+  hasCapacity(): boolean {
+    return (
+      Array.isArray(this.metadata.capacityPlan) &&
+      this.metadata.capacityPlan.length > 0
+    );
+  }
+
+  /**
+   * Returns the earliest (initial) YYYYMM from the capacity plan.
+   */
+  get earliestCapacityMonth(): YYYYMM | null {
+    if (!this.hasCapacity()) return null;
+
+    const supply = this.metadata.capacityPlan!;
+
+    return supply.reduce(
+      (earliest, current) =>
+        current.month < earliest ? current.month : earliest,
+      supply[0].month
+    );
+  }
+
+  /**
+   * Returns the most recent (latest) YYYYMM from the capacity plan.
+   */
+  get latestCapacityMonth(): YYYYMM | null {
+    if (!this.hasCapacity()) return null;
+
+    const supply = this.metadata.capacityPlan!;
+
+    return supply.reduce(
+      (latest, current) => (current.month > latest ? current.month : latest),
+      supply[0].month
+    );
+  }
+
+  get capacity(): MonthlyCapacity[] {
+    return this.metadata?.capacityPlan || [];
+  }
+
+  /**
+   * Returns the total capacity units across all months.
+   */
+  get totalCapacity(): number {
+    const capacity = this.metadata.capacityPlan ?? [];
+    return capacity.reduce(
+      (sum, c) => sum + c.capacity + (c.adjustment ?? 0),
+      0
+    );
+  }
+
+  /**
+   * Returns the average capacity per month.
+   * Includes adjustments.
+   */
+  get averageMonthlyCapacity(): number {
+    const capacity = this.metadata.capacityPlan ?? [];
+    if (capacity.length === 0) return 0;
+
+    return this.totalCapacity / capacity.length;
+  }
+
+  /**
+   * Returns the MonthlyCapacity entry with the highest supply.
+   * Includes adjustments.
+   */
+  get maxSupplyMonth(): MonthlyCapacity | null {
+    const supply = this.metadata.capacityPlan ?? [];
+    if (supply.length === 0) return null;
+
+    return supply.reduce((max, current) => {
+      const maxUnits = max.capacity + (max.adjustment ?? 0);
+      const currUnits = current.capacity + (current.adjustment ?? 0);
+      return currUnits > maxUnits ? current : max;
+    });
+  }
+
+  /**
+   * Returns the MonthlyCapacity entry with the lowest supply.
+   * Includes adjustments.
+   */
+  get minSupplyMonth(): MonthlyCapacity | null {
+    const supply = this.metadata.capacityPlan ?? [];
+    if (supply.length === 0) return null;
+
+    return supply.reduce((min, current) => {
+      const minUnits = min.capacity + (min.adjustment ?? 0);
+      const currUnits = current.capacity + (current.adjustment ?? 0);
+      return currUnits < minUnits ? current : min;
+    });
+  }
+
+  /**
+   * Generates and replaces the capacity plan automatically.
+   *
+   * @param months - Number of months to generate from the start date.
+   * @param amount - Base units for the first month.
+   * @param growthRate - Optional growth rate per month (e.g. 0.03 = +3%, -0.02 for decline).
+   * @param startDate - Date | ISO date | YYYYMM. Defaults to current month.
+   * @returns {this} Updated subscription instance.
+   */
+  generateCapacityPlan(
+    months: number,
+    amount: number,
+    growthRate: number = 0,
+    startDate?: StartDateInput
+  ): this {
+    return this.runJournaled(
+      "generateCapacityPlan",
+      [months, amount, growthRate, startDate],
+      () => {
+        return this.generateCapacityCurve({
+          curve: CapacityCurve.COMPOUND,
+          months,
+          start: amount,
+          growthRate,
+          startDate,
+        });
+      }
+    );
+  }
+
+  /**
+   * Generates and replaces the capacity plan from a curve: compound, linear, logistic (toward a ceiling)
+   * or step increases, with optional seasonal multipliers by calendar month.
+   *
+   * @param options - Curve, parameters, number of months, start date and seasonality.
+   * @returns {this} Updated subscription instance.
+   */
+  generateCapacityCurve(options: CapacityCurveOptions): this {
+    return this.runJournaled("generateCapacityCurve", [options], () => {
+      return this.setCapacity(buildCapacityCurve(options));
+    });
+  }
+
+  /**
+   * Fits a curve to historical capacity and replaces the capacity plan with the actuals
+   * followed by the projected months.
+   *
+   * @param actuals - Historical capacity, at least two months.
+   * @param months - Number of months to project after the last actual.
+   * @param curve - Curve to fit. Defaults to linear.
+   * @param options - Known logistic ceiling and seasonality for the projection.
+   * @returns {this} Updated subscription instance.
+   */
+  generateCapacityFromActuals(
+    actuals: MonthlyCapacity[],
+    months: number,
+    curve: CapacityCurve = CapacityCurve.LINEAR,
+    options: { ceiling?: number; seasonality?: number[] } = {}
+  ): this {
+    return this.runJournaled(
+      "generateCapacityFromActuals",
+      [actuals, months, curve, options],
+      () => {
+        if (!Number.isInteger(months) || months <= 0) {
+          throw new Error("Months must be a positive integer");
+        }
+        const history = [...actuals].sort((a, b) =>
+          a.month.localeCompare(b.month)
+        );
+        const fit = fitCapacityCurve(history, curve, options.ceiling);
+        const first = history[0].month;
+        const span = monthsInPeriod(first, history[history.length - 1].month);
+
+        const projected = buildCapacityCurve({
+          ...fit,
+          months: span + months,
+          startDate: first,
+          seasonality: options.seasonality,
+        }).slice(span);
+
+        return this.setCapacity([
+          ...history.map((s) => ({ ...s })),
+          ...projected,
+        ]);
+      }
+    );
+  }
+
+  /**
+   * Normalizes all supply plan entries to have the same unit amount.
+   *
+   * - Throws if supply plan is empty
+   * - If only one entry exists, does nothing
+   * - If multiple entries exist, sets all units to the provided amount
+   *
+   * @param amount - Unit amount to apply to all months
+   * @returns {this} Updated subscription instance
+   */
+  normalizeCapacityUnits(amount: number): this {
+    return this.runJournaled("normalizeCapacityUnits", [amount], () => {
+      if (!Number.isFinite(amount) || amount < 0) {
+        throw new Error("Amount must be a non-negative number");
+      }
+
+      const supply = this.metadata.capacityPlan;
+
+      if (!supply || supply.length === 0) {
+        throw new Error("Supply plan is empty");
+      }
+
+      if (supply.length === 1) {
+        return this;
+      }
+
+      supply.forEach((s) => {
+        s.capacity = amount;
+      });
+
+      this.updateTimestamp();
+      this.markFinanceDirty();
+
+      return this;
+    });
+  }
+
+  recomputeCapacityPeriod(
+    start: YYYYMM,
+    end: YYYYMM,
+    mode: CapacityPeriodResizeMode = CapacityPeriodResizeMode.DEFAULT
+  ): this {
+    return this.runJournaled(
+      "recomputeCapacityPeriod",
+      [start, end, mode],
+      () => {
+        if (!isValidYYYYMM(start) || !isValidYYYYMM(end)) {
+          throw new Error("Invalid YYYYMM period");
+        }
+
+        if (!this.hasCapacity()) {
+          throw new Error("No existing capacity plan to recompute");
+        }
+
+        if (start > end) {
+          throw new Error("Start month must be <= end month");
+        }
+
+        const newLength = monthsInPeriod(start, end);
+        const oldPlan = [...this.metadata.capacityPlan!];
+        const oldLength = oldPlan.length;
+
+        const newPlan: MonthlyCapacity[] = [];
+
+        if (mode === CapacityPeriodResizeMode.DEFAULT) {
+          for (let i = 0; i < newLength; i++) {
+            const source = i < oldLength ? oldPlan[i] : oldPlan[oldLength - 1]; // extend using last known value
+
+            newPlan.push({
+              month: offsetMonthsToYYYYMM(start, i),
+              capacity: source.capacity,
+              adjustment: source.adjustment,
+            });
+          }
+        }
+
+        if (mode === CapacityPeriodResizeMode.DISTRIBUTE) {
+          const total = this.totalCapacity;
+          const base = Math.floor(total / newLength);
+          let remainder = total % newLength;
+
+          for (let i = 0; i < newLength; i++) {
+            const extra = remainder > 0 ? 1 : 0;
+            remainder--;
+
+            newPlan.push({
+              month: offsetMonthsToYYYYMM(start, i),
+              capacity: base + extra,
+            });
+          }
+        }
+
+        this.metadata.capacityPlan = newPlan;
+        delete this.metadata.cohorts;
+        this.updateTimestamp();
+        this.markFinanceDirty();
+
+        return this;
+      }
+    );
+  }
+
+  /**
+   * Sets the entire monthly capacity plan.
+   * The plan no longer comes from the cohort model, so the model and the entries'
+   * new/churned subscriber counts are dropped; use `applyCohortModel` to keep them.
+   * @param {MonthlyCapacity[]} capacityPlan - Array of MonthlyCapacity.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if month format or capacity is invalid.
+   */
+  setCapacity(capacityPlan: MonthlyCapacity[]): this {
+    return this.runJournaled("setCapacity", [capacityPlan], () => {
+      capacityPlan.forEach((s) => {
+        if (!isValidYYYYMM(s.month))
+          throw new Error(`Invalid month: ${s.month}`);
+        if (typeof s.capacity !== "number")
+          throw new Error("Capacity must be a number");
+      });
+      this.metadata.capacityPlan = capacityPlan.map((s) => {
+        const entry = { ...s };
+        delete entry.newSubscribers;
+        delete entry.churnedSubscribers;
+        return entry;
+      });
+      delete this.metadata.cohorts;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /**
+   * Adds capacity for a specific month.
+   * @param {YYYYMM} month - YYYY-MM string.
+   * @param {number} units - Number of subscription units for the month.
+   * @param {number} [adjustment] - Optional adjustment to capacity.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if month already exists.
+   */
+  addCapacity(month: YYYYMM, units: number, adjustment?: number): this {
+    return this.runJournaled("addCapacity", [month, units, adjustment], () => {
+      if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+      this.metadata.capacityPlan ??= [];
+      if (this.metadata.capacityPlan.some((s) => s.month === month)) {
+        throw new Error(
+          `Month ${month} already exists. Use updateCapacityUnits or updateCapacityAdjustment`
+        );
+      }
+      this.metadata.capacityPlan.push({ month, capacity: units, adjustment });
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /**
+   * Updates capacity units for a month.
+   * @param {YYYYMM} month - YYYY-MM string.
+   * @param {number} units - New subscription units.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if month does not exist.
+   */
+  updateCapacityUnits(month: YYYYMM, units: number): this {
+    return this.runJournaled("updateCapacityUnits", [month, units], () => {
+      if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+      const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+      if (!plan) throw new Error(`Month ${month} not found`);
+      plan.capacity = units;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /**
+   * Updates capacity adjustment for a month.
+   * @param {YYYYMM} month - YYYY-MM string.
+   * @param {number} [adjustment] - Optional adjustment value.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if month does not exist.
+   */
+  updateCapacityAdjustment(month: YYYYMM, adjustment?: number): this {
+    return this.runJournaled(
+      "updateCapacityAdjustment",
+      [month, adjustment],
+      () => {
+        if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+        const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+        if (!plan) throw new Error(`Month ${month} not found`);
+        plan.adjustment = adjustment;
+        this.updateTimestamp();
+        this.markFinanceDirty();
+        return this;
+      }
+    );
+  }
+
+  /**
+   * Removes a month from the capacity plan.
+   * @param {YYYYMM} month - YYYY-MM string.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if month does not exist.
+   */
+  removeCapacity(month: YYYYMM): this {
+    return this.runJournaled("removeCapacity", [month], () => {
+      if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+      const index = this.metadata.capacityPlan?.findIndex(
+        (s) => s.month === month
+      );
+      if (index === undefined || index === -1)
+        throw new Error(`Month ${month} not found`);
+      this.metadata.capacityPlan!.splice(index, 1);
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /** Clears the entire capacity plan. */
+  clearCapacity(): this {
+    return this.runJournaled("clearCapacity", [], () => {
+      this.metadata.capacityPlan = [];
+      delete this.metadata.cohorts;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /* ------------------ DEMAND & UTILIZATION ------------------ */
+
+  /**
+   * Sets the demand for a month. Capacity then acts as a seat cap:
+   * effective subscribers are min(demand, capacity + adjustment).
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {number} demand - Subscribers wanting the plan.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the month is not in the capacity plan or demand is invalid.
+   */
+  setDemand(month: YYYYMM, demand: number): this {
+    return this.runJournaled("setDemand", [month, demand], () => {
+      if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+      if (!Number.isFinite(demand) || demand < 0)
+        throw new Error("Demand must be a non-negative number");
+      const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+      if (!plan) throw new Error(`No capacity plan entry for ${month}`);
+
+      plan.demand = demand;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /**
+   * Removes demand from every month, so capacity is again used as the subscriber count.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   */
+  clearDemand(): this {
+    return this.runJournaled("clearDemand", [], () => {
+      this.metadata.capacityPlan?.forEach((s) => delete s.demand);
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /**
+   * Returns the demand for a month (capacity plus adjustment when no demand is set).
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {number} - Demand.
+   */
+  getDemand(month: YYYYMM): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan) return 0;
+    return plan.demand ?? plan.capacity + (plan.adjustment ?? 0);
+  }
+
+  /**
+   * Returns the effective subscribers for a month: min(demand, capacity + adjustment).
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {number} - Effective subscribers.
+   */
+  getEffectiveSubscribers(month: YYYYMM): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    return plan ? effectiveSubscribers(plan) : 0;
+  }
+
+  /**
+   * Returns the demand the capacity could not serve in a month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {number} - Unmet demand.
+   */
+  getUnmetDemand(month: YYYYMM): number {
+    return Math.max(
+      0,
+      this.getDemand(month) - this.getEffectiveSubscribers(month)
+    );
+  }
+
+  /**
+   * Returns the share of capacity in use for a month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {number} - Utilization (0–1), or 0 if there is no capacity.
+   */
+  getUtilization(month: YYYYMM): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    const capacity = plan ? plan.capacity + (plan.adjustment ?? 0) : 0;
+    return capacity <= 0 ? 0 : effectiveSubscribers(plan!) / capacity;
+  }
+
+  /**
+   * Returns the monthly revenue lost to capacity shortfalls: the rate charge
+   * the unmet demand would have added. Suspended or cancelled months lose nothing.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - Lost revenue.
+   */
+  getLostRevenue(month: YYYYMM): MajikMoney {
+    const unmet = this.getUnmetDemand(month);
+    if (unmet === 0 || !this.isBillable(month)) return this.DEFAULT_ZERO();
+    const units = this.getBillableUnits(month);
+    return this.computeMonthlyCharge(units + unmet, month).subtract(
+      this.computeMonthlyCharge(units, month)
+    );
+  }
+
+  /**
+   * Returns demand, capacity, utilization and lost revenue for every month,
+   * flagging months where demand exceeds capacity.
+   * @returns {CapacityReportRow[]} - One row per capacity plan month.
+   */
+  getCapacityReport(): CapacityReportRow[] {
+    return [...(this.metadata.capacityPlan ?? [])]
+      .sort((a, b) => a.month.localeCompare(b.month))
+      .map((s) => {
+        const unmetDemand = this.getUnmetDemand(s.month);
+        return {
+          month: s.month,
+          capacity: s.capacity + (s.adjustment ?? 0),
+          demand: this.getDemand(s.month),
+          subscribers: effectiveSubscribers(s),
+          unmetDemand,
+          utilization: this.getUtilization(s.month),
+          lostRevenue: this.getLostRevenue(s.month),
+          overCapacity: unmetDemand > 0,
+        };
+      });
+  }
+
+  /**
+   * Returns the months where demand exceeds capacity.
+   */
+  get overCapacityMonths(): YYYYMM[] {
+    return this.getCapacityReport()
+      .filter((r) => r.overCapacity)
+      .map((r) => r.month);
+  }
+
+  /* ------------------ COHORT MODELING ------------------ */
+
+  /**
+   * Generates and replaces the capacity plan from monthly acquisitions and a churn assumption.
+   * Each month records its new and churned subscribers so MRR movements can be derived.
+   *
+   * @param acquisitions - New subscribers per month, starting at the start date.
+   * @param churn - Flat monthly churn rate (e.g. 0.05) or churn rates per cohort age.
+   * @param startDate - Date | ISO date | YYYYMM. Defaults to current month.
+   * @returns {this} Updated subscription instance.
+   */
+  applyCohortModel(
+    acquisitions: number[],
+    churn: ChurnRate,
+    startDate?: StartDateInput
+  ): this {
+    return this.runJournaled(
+      "applyCohortModel",
+      [acquisitions, churn, startDate],
+      () => {
+        if (!Array.isArray(acquisitions) || acquisitions.length === 0) {
+          throw new Error("Acquisitions must be a non-empty array");
+        }
+
+        if (acquisitions.some((a) => !Number.isInteger(a) || a < 0)) {
+          throw new Error("Acquisitions must be non-negative integers");
+        }
+
+        const survivors = computeCohortSurvivors(acquisitions, churn);
+        const startMonth = dateToYYYYMM(normalizeStartDate(startDate));
+        const supplyPlan: MonthlyCapacity[] = [];
+
+        let previous = 0;
+
+        for (let i = 0; i < acquisitions.length; i++) {
+          const active = survivors.reduce((sum, row) => sum + row[i], 0);
+
+          supplyPlan.push({
+            month: offsetMonthsToYYYYMM(startMonth, i),
+            capacity: active,
+            newSubscribers: acquisitions[i],
+            churnedSubscribers: previous + acquisitions[i] - active,
+          });
+
+          previous = active;
+        }
+
+        this.metadata.capacityPlan = supplyPlan;
+        this.metadata.cohorts = {
+          startMonth,
+          acquisitions: [...acquisitions],
+          churn: Array.isArray(churn) ? [...churn] : churn,
+        };
+        this.updateTimestamp();
+        this.markFinanceDirty();
+        return this;
+      }
+    );
+  }
+
+  /**
+   * Returns the cohort model inputs the capacity plan was generated from, if any.
+   * Replacing the plan by other means clears it.
+   */
+  get cohortModel(): CohortModel | undefined {
+    return this.metadata.cohorts;
+  }
+
+  /**
+   * Returns the remaining subscribers of each acquisition cohort.
+   * @returns {CohortRow[]} - One row per acquisition month, or an empty array without a cohort model.
+   */
+  getCohortTable(): CohortRow[] {
+    const model = this.metadata.cohorts;
+    if (!model) return [];
+
+    const survivors = computeCohortSurvivors(model.acquisitions, model.churn);
+
+    return model.acquisitions.map((acquired, i) => ({
+      cohort: offsetMonthsToYYYYMM(model.startMonth, i),
+      acquired,
+      active: survivors[i].slice(i),
+    }));
+  }
+
+  /**
+   * Returns the subscriber flow for a month.
+   * Uses the recorded new/churned subscribers when present, otherwise infers them from the net change.
+   */
+  private getSubscriberFlow(month: YYYYMM): {
+    starting: number;
+    acquired: number;
+    churned: number;
+    ending: number;
+  } {
+    const plan = this.metadata.capacityPlan ?? [];
+    const previousMonth = offsetMonthsToYYYYMM(month, -1);
+    const current = plan.find((s) => s.month === month);
+    const previous = plan.find((s) => s.month === previousMonth);
+
+    const starting = previous ? effectiveSubscribers(previous) : 0;
+    const ending = current ? effectiveSubscribers(current) : 0;
+
+    if (current?.newSubscribers !== undefined) {
+      return {
+        starting,
+        acquired: current.newSubscribers,
+        churned: current.churnedSubscribers ?? 0,
+        ending,
+      };
+    }
+
+    return {
+      starting,
+      acquired: Math.max(0, ending - starting),
+      churned: Math.max(0, starting - ending),
+      ending,
+    };
+  }
+
+  /**
+   * Returns the share of the previous month's subscribers lost in the given month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {number} - Churn rate (0–1).
+   */
+  getChurnRate(month: YYYYMM): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const flow = this.getSubscriberFlow(month);
+    return flow.starting <= 0 ? 0 : flow.churned / flow.starting;
+  }
+
+  /**
+   * Returns the MRR movement (new, expansion, contraction, churned) for a month.
+   * New MRR is valued at the month's average revenue per subscriber, churned MRR at the previous month's.
+   * Any remaining change from existing subscribers is reported as expansion or contraction.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MRRMovement} - MRR bridge for the month.
+   */
+  getMRRMovement(month: YYYYMM): MRRMovement {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const flow = this.getSubscriberFlow(month);
+    const startingMRR = this.getRecurringRevenue(
+      offsetMonthsToYYYYMM(month, -1)
+    );
+    const endingMRR = this.getRecurringRevenue(month);
+
+    const startARPU =
+      flow.starting > 0 ? startingMRR.divide(flow.starting) : this.monthlyRate;
+    const endARPU =
+      flow.ending > 0 ? endingMRR.divide(flow.ending) : this.monthlyRate;
+
+    const newMRR = endARPU.multiply(flow.acquired);
+    const churnedMRR = startARPU.multiply(flow.churned);
+    const netNewMRR = endingMRR.subtract(startingMRR);
+    const residual = netNewMRR.subtract(newMRR).add(churnedMRR);
+    const isExpansion = residual.toMajor() >= 0;
+
+    return {
+      month,
+      startingMRR,
+      newMRR,
+      expansionMRR: isExpansion ? residual : this.DEFAULT_ZERO(),
+      contractionMRR: isExpansion
+        ? this.DEFAULT_ZERO()
+        : this.DEFAULT_ZERO().subtract(residual),
+      churnedMRR,
+      netNewMRR,
+      endingMRR,
+    };
+  }
+
+  /**
+   * Returns the MRR movement for every month of the capacity plan, in chronological order.
+   * @returns {MRRMovement[]} - MRR bridge per month.
+   */
+  getMRRBridge(): MRRMovement[] {
+    const plan = this.metadata.capacityPlan ?? [];
+    return [...plan]
+      .sort((a, b) => a.month.localeCompare(b.month))
+      .map((s) => this.getMRRMovement(s.month));
+  }
+
+  /* ------------------ TRIAL MODELING ------------------ */
+
+  /**
+   * Returns the trial configuration, if any.
+   */
+  get trial(): SubscriptionTrial | undefined {
+    return this.metadata.trial;
+  }
+
+  /**
+   * Sets the trial offered to new subscribers.
+   * New subscribers of each month start in trial; after it ends, only `conversionRate` of them keep paying.
+   * @param {SubscriptionTrial} trial - Length, paid/free, trial price and conversion rate.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the configuration is invalid.
+   */
+  setTrial(trial: SubscriptionTrial): this {
+    return this.runJournaled("setTrial", [trial], () => {
+      if (!Number.isFinite(trial.length) || trial.length <= 0)
+        throw new Error("Trial length must be positive");
+      if (!Object.values(TrialLengthUnit).includes(trial.lengthUnit))
+        throw new Error("Invalid trial length unit");
+      if (
+        !Number.isFinite(trial.conversionRate) ||
+        trial.conversionRate < 0 ||
+        trial.conversionRate > 1
+      )
+        throw new Error("Conversion rate must be between 0 and 1");
+      if (trial.paid) {
+        if (!trial.price) throw new Error("Paid trials require a price");
+        this.assertCurrency(trial.price);
+      }
+
+      this.metadata.trial = { ...trial };
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /** Removes the trial configuration. */
+  clearTrial(): this {
+    return this.runJournaled("clearTrial", [], () => {
+      this.metadata.trial = undefined;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /**
+   * Returns the trial funnel for a month: trial starts, users in trial, conversions and paying users.
+   * Each month's new subscribers start a trial; the capacity plan counts trial and paying users alike,
+   * and trial users who do not convert are removed once their trial ends.
+   * For `SubscriptionType.TRIAL` subscriptions every subscriber is a trial user.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {TrialFunnel} - Trial funnel for the month.
+   */
+  getTrialFunnel(month: YYYYMM): TrialFunnel {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    const units = plan ? effectiveSubscribers(plan) : 0;
+    const trial = this.metadata.trial;
+
+    if (this.type === SubscriptionType.TRIAL) {
+      return {
+        month,
+        trialStarts: plan ? this.getSubscriberFlow(month).acquired : 0,
+        trialUsers: units,
+        conversions: 0,
+        payingUsers: 0,
+      };
+    }
+
+    if (!trial || !plan) {
+      return {
+        month,
+        trialStarts: 0,
+        trialUsers: 0,
+        conversions: 0,
+        payingUsers: units,
+      };
+    }
+
+    const length = trialLengthInMonths(trial);
+    let trialStarts = 0;
+    let trialUsers = 0;
+    let conversions = 0;
+    let lostTrials = 0;
+
+    this.metadata
+      .capacityPlan!.filter((s) => s.month <= month)
+      .forEach((s) => {
+        const starts = this.getSubscriberFlow(s.month).acquired;
+        const age = monthsInPeriod(s.month, month) - 1;
+        const inTrial = Math.min(1, Math.max(0, length - age));
+        const afterTrial = Math.min(1, Math.max(0, age + 1 - length));
+
+        if (age === 0) trialStarts = starts;
+        trialUsers += starts * inTrial;
+        lostTrials += starts * (1 - trial.conversionRate) * afterTrial;
+        if (age === Math.floor(length))
+          conversions += starts * trial.conversionRate;
+      });
+
+    return {
+      month,
+      trialStarts,
+      trialUsers,
+      conversions,
+      payingUsers: Math.max(0, units - trialUsers - lostTrials),
+    };
+  }
+
+  /**
+   * Returns revenue from paid trials in a month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - Trial users times the monthly trial price (zero for free trials).
+   */
+  getTrialRevenue(month: YYYYMM): MajikMoney {
+    const trial = this.metadata.trial;
+    if (!trial?.paid || !trial.price || !this.isBillable(month))
+      return this.DEFAULT_ZERO();
+    return trial.price.multiply(this.getTrialFunnel(month).trialUsers);
+  }
+
+  /**
+   * Returns the COS attributable to trial users in a month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - COS with trial users less the COS of paying users alone.
+   */
+  getTrialCOS(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.computeMonthlyCOS(month, this.getServedUnits(month)).subtract(
+      this.computeMonthlyCOS(month, this.getBillableUnits(month))
+    );
+  }
+
+  /* ------------------ UNIT ECONOMICS ------------------ */
+
+  /**
+   * Returns the customer acquisition cost inputs, if any.
+   */
+  get acquisitionCost(): AcquisitionCost | undefined {
+    return this.metadata.acquisition;
+  }
+
+  /**
+   * Sets customer acquisition cost inputs: a blended CAC per new subscriber and/or monthly acquisition spend.
+   * @param {AcquisitionCost} config - CAC inputs and optional churn fallback and lifetime cap.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the configuration is invalid.
+   */
+  setAcquisitionCost(config: AcquisitionCost): this {
+    return this.runJournaled("setAcquisitionCost", [config], () => {
+      if (!config.perSubscriber && !config.monthlySpend) {
+        throw new Error(
+          "Acquisition cost requires a per-subscriber CAC or monthly spend"
+        );
+      }
+      if (config.perSubscriber) this.assertCurrency(config.perSubscriber);
+      Object.entries(config.monthlySpend ?? {}).forEach(([month, spend]) => {
+        if (!isValidYYYYMM(month)) throw new Error(`Invalid month: ${month}`);
+        this.assertCurrency(spend);
+      });
+      if (
+        config.churnRate !== undefined &&
+        (!Number.isFinite(config.churnRate) ||
+          config.churnRate < 0 ||
+          config.churnRate > 1)
+      ) {
+        throw new Error("Churn rate must be between 0 and 1");
+      }
+      if (
+        config.maxLifetimeMonths !== undefined &&
+        (!Number.isFinite(config.maxLifetimeMonths) ||
+          config.maxLifetimeMonths <= 0)
+      ) {
+        throw new Error("Maximum lifetime must be positive");
+      }
+
+      this.metadata.acquisition = {
+        ...config,
+        monthlySpend: config.monthlySpend
+          ? { ...config.monthlySpend }
+          : undefined,
+      };
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /** Removes the customer acquisition cost inputs. */
+  clearAcquisitionCost(): this {
+    return this.runJournaled("clearAcquisitionCost", [], () => {
+      this.metadata.acquisition = undefined;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
+
+  /**
+   * Returns the acquisition spend for a month: the recorded monthly spend,
+   * or the blended CAC times the month's new subscribers.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - Acquisition spend for the month.
+   */
+  getAcquisitionSpend(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const config = this.metadata.acquisition;
+    if (!config) return this.DEFAULT_ZERO();
+
+    const spend = config.monthlySpend?.[month];
+    if (spend) return spend;
+    if (!config.perSubscriber) return this.DEFAULT_ZERO();
+    if (!this.metadata.capacityPlan?.some((s) => s.month === month))
+      return this.DEFAULT_ZERO();
+    return config.perSubscriber.multiply(
+      this.getSubscriberFlow(month).acquired
+    );
+  }
+
+  /**
+   * Returns unit economics for the whole plan, or for a single month.
+   * CAC is acquisition spend per new subscriber; churn comes from the capacity plan,
+   * falling back to the configured churn rate when the plan shows none.
+   * @param {YYYYMM} [month] - Month in YYYY-MM format. Omit for the whole plan.
+   * @returns {UnitEconomics} - CAC, ARPU, margin, churn, lifetime, LTV, LTV:CAC and payback months.
+   */
+  getUnitEconomics(month?: YYYYMM): UnitEconomics {
+    if (month !== undefined && !isValidYYYYMM(month))
+      throw new Error("Invalid month");
+
+    const config = this.metadata.acquisition;
+    const months = month
+      ? [month]
+      : (this.metadata.capacityPlan ?? []).map((s) => s.month);
+
+    let spend = this.DEFAULT_ZERO();
+    let revenue = this.DEFAULT_ZERO();
+    let profit = this.DEFAULT_ZERO();
+    let acquired = 0;
+    let starting = 0;
+    let churned = 0;
+    let payingUnits = 0;
+
+    months.forEach((m) => {
+      const flow = this.getSubscriberFlow(m);
+      spend = spend.add(this.getAcquisitionSpend(m));
+      revenue = revenue.add(this.getRevenue(m));
+      profit = profit.add(this.getProfit(m));
+      acquired += flow.acquired;
+      starting += flow.starting;
+      churned += flow.churned;
+      payingUnits += this.getBillableUnits(m);
+    });
+
+    const cac =
+      acquired > 0
+        ? spend.divide(acquired)
+        : (config?.perSubscriber ?? this.DEFAULT_ZERO());
+    const arpu =
+      payingUnits > 0 ? revenue.divide(payingUnits) : this.DEFAULT_ZERO();
+    const margin = revenue.isZero() ? 0 : profit.ratio(revenue);
+
+    const observedChurn = starting > 0 ? churned / starting : 0;
+    const churnRate =
+      observedChurn > 0 ? observedChurn : (config?.churnRate ?? 0);
+    const maxLifetime = config?.maxLifetimeMonths ?? 60;
+    const lifetimeMonths =
+      churnRate > 0 ? Math.min(1 / churnRate, maxLifetime) : maxLifetime;
+
+    const monthlyContribution = arpu.multiply(margin);
+    const ltv = monthlyContribution.multiply(lifetimeMonths);
+
+    return {
+      month,
+      cac,
+      arpu,
+      margin,
+      churnRate,
+      lifetimeMonths,
+      ltv,
+      ltvToCac: cac.isZero() ? 0 : ltv.ratio(cac),
+      paybackMonths:
+        monthlyContribution.toMajor() > 0
+          ? cac.ratio(monthlyContribution)
+          : null,
+    };
+  }
+
+  /* ------------------ FINANCE HELPERS ------------------ */
+
+  /**
+   * Returns the subscribers paying the rate in a month: capacity plus adjustment less trial users,
+   * or zero if the month has no plan entry or the subscription is suspended/cancelled.
+   */
+  private getBillableUnits(month: YYYYMM): number {
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan || !this.isBillable(month)) return 0;
+    if (!this.metadata.trial && this.type !== SubscriptionType.TRIAL) {
+      return effectiveSubscribers(plan);
+    }
+    return this.getTrialFunnel(month).payingUsers;
+  }
+
+  /**
+   * Returns the subscribers served in a month (paying and trial users), which drive COS.
+   */
+  private getServedUnits(month: YYYYMM): number {
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan || !this.isBillable(month)) return 0;
+    if (!this.metadata.trial && this.type !== SubscriptionType.TRIAL) {
+      return effectiveSubscribers(plan);
+    }
+    const funnel = this.getTrialFunnel(month);
+    return funnel.payingUsers + funnel.trialUsers;
+  }
+
+  /**
+   * Computes the charge for one billing cycle at a number of units, in the base currency.
+   * Regional price points are charged to their share of units; the pricing model applies to the rest.
+   */
+  private computeCycleCharge(units: number, month?: YYYYMM): MajikMoney {
+    const regional = this.metadata.regionalPrices ?? [];
+    if (regional.length === 0) return computeRateCharge(this.rate, units);
+
+    const regionalShare = regional.reduce(
+      (sum, r) => sum + r.subscriberShare,
+      0
+    );
+    return regional.reduce(
+      (acc, r) =>
+        acc.add(
+          this.convert(
+            r.amount.multiply(units * r.subscriberShare),
+            this.baseCurrency,
+            month
+          )
+        ),
+      computeRateCharge(this.rate, units * (1 - regionalShare))
+    );
+  }
+
+  /**
+   * Computes the monthly-equivalent charge for a number of units,
+   * applying the pricing model and normalizing the billing cycle.
+   */
+  private computeMonthlyCharge(units: number, month?: YYYYMM): MajikMoney {
+    return this.computeCycleCharge(units, month).multiply(
+      billingCycleMonthlyFactor(this.rate.billingCycle)
+    );
+  }
+
+  /**
+   * Computes COS for a month at a number of units, in the base currency,
+   * applying each item's kind (variable, fixed, step, one-off) and effective period.
+   */
+  private computeMonthlyCOS(month: YYYYMM, units: number): MajikMoney {
+    return this.metadata.cos.reduce(
+      (acc, c) =>
+        acc.add(
+          this.convert(
+            computeCOSItemCost(c, month, units),
+            this.baseCurrency,
+            month
+          )
+        ),
+      this.DEFAULT_ZERO()
+    );
+  }
+
+  /**
+   * Computes aggregate finance across all months.
+   * Each month is converted separately so per-month FX rates apply.
+   * Net profit deducts COS and acquisition spend from revenue net of discounts and tax.
+   * @param {string} [currencyCode] - Currency to report in. Defaults to the base currency.
+   */
+  private computeFinance(currencyCode?: string): SubscriptionFinance {
+    const code = currencyCode || this.baseCurrency;
+    const plan = this.metadata.capacityPlan ?? [];
+    const zero = this.DEFAULT_ZERO(code);
+
+    const totals = plan.reduce(
+      (acc, s) => {
+        const tax = this.getTaxBreakdown(s.month);
+        const convert = (money: MajikMoney) =>
+          this.convert(money, code, s.month);
+        return {
+          revenue: acc.revenue.add(convert(this.getRevenue(s.month))),
+          cos: acc.cos.add(convert(this.getCOS(s.month))),
+          netOfTax: acc.netOfTax.add(convert(tax.netOfTax)),
+          collected: acc.collected.add(convert(tax.taxCollected)),
+          withheld: acc.withheld.add(convert(tax.withholding)),
+          acquisition: acc.acquisition.add(
+            convert(this.getAcquisitionSpend(s.month))
+          ),
+        };
+      },
+      {
+        revenue: zero,
+        cos: zero,
+        netOfTax: zero,
+        collected: zero,
+        withheld: zero,
+        acquisition: zero,
+      }
+    );
+
+    const grossRevenue = totals.revenue;
+    const grossCOS = totals.cos;
+    const grossProfit = grossRevenue.subtract(grossCOS);
+    const grossIncome = grossProfit;
+
+    const netRevenue = totals.netOfTax;
+    const netProfit = netRevenue
+      .subtract(grossCOS)
+      .subtract(totals.acquisition);
+    const netIncome = netProfit;
+
+    const revenueMargin = grossRevenue.isZero()
+      ? 0
+      : grossProfit.ratio(grossRevenue);
+    const cosMargin = grossRevenue.isZero() ? 0 : grossCOS.ratio(grossRevenue);
+
+    const netRevenueRatio = grossRevenue.isZero()
+      ? 0
+      : netRevenue.ratio(grossRevenue);
+    const netMargin = netRevenue.isZero() ? 0 : netProfit.ratio(netRevenue);
+    const netCOSMargin = netRevenue.isZero() ? 0 : grossCOS.ratio(netRevenue);
+    const taxRatio = (value: MajikMoney) =>
+      netRevenue.isZero() ? 0 : value.ratio(netRevenue);
+
+    return {
+      revenue: {
+        gross: { value: grossRevenue, marginRatio: 1 },
+        net: { value: netRevenue, marginRatio: netRevenueRatio },
+      },
+      cos: {
+        gross: { value: grossCOS, marginRatio: cosMargin },
+        net: { value: grossCOS, marginRatio: netCOSMargin },
+      },
+      profit: {
+        gross: { value: grossProfit, marginRatio: revenueMargin },
+        net: { value: netProfit, marginRatio: netMargin },
+      },
+      income: {
+        gross: { value: grossIncome, marginRatio: revenueMargin },
+        net: { value: netIncome, marginRatio: netMargin },
+      },
+      tax: {
+        collected: {
+          value: totals.collected,
+          marginRatio: taxRatio(totals.collected),
+        },
+        withheld: {
+          value: totals.withheld,
+          marginRatio: taxRatio(totals.withheld),
+        },
+      },
+    };
+  }
+
+  /** Recomputes and stores aggregate finance info. */
+  private recomputeFinance(): void {
     if (!this.financeDirty) return;
+    const before = this.metadata.finance;
+    this.metadata.finance = this.computeFinance();
+    this.financeDirty = false;
+
+    if (this.listeners.size === 0) return;
+    this.pendingFinance ??= before;
+    if (this.batchDepth === 0) this.flushEvents(false);
+  }
+
+  /**
+   * Returns aggregate finance (revenue, COS, profit, income, tax) across all months.
+   * @param {string} [currencyCode] - Currency to report in. Defaults to the base currency.
+   * @returns {SubscriptionFinance} - Finance snapshot.
+   */
+  getFinance(currencyCode?: string): SubscriptionFinance {
+    if (!currencyCode || currencyCode === this.baseCurrency) {
+      this.recomputeFinance();
+      return this.metadata.finance;
+    }
+    return this.computeFinance(currencyCode);
+  }
+
+  /* ------------------ AGGREGATE FINANCE GETTERS ------------------ */
+
+  get averageMonthlyRevenue(): MajikMoney {
+    const months = this.metadata.capacityPlan?.length ?? 0;
+    if (months === 0) return this.DEFAULT_ZERO();
+    return this.grossRevenue.divide(months);
+  }
+
+  get averageMonthlyProfit(): MajikMoney {
+    const months = this.metadata.capacityPlan?.length ?? 0;
+    if (months === 0) return this.DEFAULT_ZERO();
+    return this.grossProfit.divide(months);
+  }
+
+  /**
+   * Returns total gross revenue across all months.
+   * @returns {MajikMoney} - Gross revenue.
+   */
+  get grossRevenue(): MajikMoney {
+    this.recomputeFinance();
+    return this.metadata.finance.revenue.gross.value;
+  }
+
+  /**
+   * Returns total gross cost of subscription (COS) across all months.
+   * @returns {MajikMoney} - Gross COS.
+   */
+  get grossCost(): MajikMoney {
+    this.recomputeFinance();
+    return this.metadata.finance.cos.gross.value;
+  }
+
+  /**
+   * Returns total gross profit across all months.
+   * @returns {MajikMoney} - Gross profit.
+   */
+  get grossProfit(): MajikMoney {
+    this.recomputeFinance();
+    return this.metadata.finance.profit.gross.value;
+  }
+
+  /**
+   * Returns net revenue (gross revenue less scheduled discounts and tax included in the price).
+   * @returns {MajikMoney} - Net revenue.
+   */
+  get netRevenue(): MajikMoney {
+    this.recomputeFinance();
+    return this.metadata.finance.revenue.net.value;
+  }
+
+  /**
+   * Returns net profit (net revenue less COS).
+   * @returns {MajikMoney} - Net profit.
+   */
+  get netProfit(): MajikMoney {
+    this.recomputeFinance();
+    return this.metadata.finance.profit.net.value;
+  }
+
+  /**
+   * Returns the variable COS per unit per month (sum of VARIABLE item subtotals), in the base currency.
+   * Fixed, step and one-off items are excluded; see `getUnitCost` for the fully loaded cost.
+   */
+  get unitCost(): MajikMoney {
+    return this.metadata.cos
+      .filter((c) => (c.kind ?? COSKind.VARIABLE) === COSKind.VARIABLE)
+      .reduce(
+        (acc, c) => acc.add(this.convert(c.subtotal, this.baseCurrency)),
+        this.DEFAULT_ZERO()
+      );
+  }
+
+  /**
+   * Returns the fully loaded COS per unit for a month, including fixed, step and one-off items.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - Monthly COS divided by effective units.
+   */
+  getUnitCost(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const units = this.getBillableUnits(month);
+    if (units <= 0) return this.unitCost;
+    return this.getCOS(month).divide(units);
+  }
+
+  /**
+   * Returns the rate amount normalized to one month, based on the billing cycle.
+   * E.g. a 5,988/year rate yields 499/month. Does not apply the pricing model; see `getUnitPrice`.
+   * @returns {MajikMoney} - Monthly-equivalent rate per unit.
+   */
+  get monthlyRate(): MajikMoney {
+    return this.rate.amount.multiply(
+      billingCycleMonthlyFactor(this.rate.billingCycle)
+    );
+  }
+
+  /**
+   * Returns the average monthly price per unit at a given unit count, after the pricing model.
+   */
+  private averageUnitPrice(units: number): MajikMoney {
+    const quantity = Math.max(1, Math.round(units));
+    return this.computeMonthlyCharge(quantity).divide(quantity);
+  }
+
+  /**
+   * Returns the monthly profit per unit, with the pricing model evaluated at the average monthly capacity.
+   */
+  get unitProfit(): MajikMoney {
+    return this.averageUnitPrice(this.averageMonthlyCapacity).subtract(
+      this.unitCost
+    );
+  }
+
+  get unitMargin(): number {
+    const unitPrice = this.averageUnitPrice(this.averageMonthlyCapacity);
+    return unitPrice.isZero() ? 0 : this.unitProfit.ratio(unitPrice);
+  }
+
+  /**
+   * Returns the average monthly price per unit for a month, with the pricing model
+   * evaluated against the month's effective capacity.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - Average monthly price per unit.
+   */
+  getUnitPrice(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    return this.averageUnitPrice(plan ? effectiveSubscribers(plan) : 1);
+  }
+
+  /**
+   * Returns the monthly profit per unit for a month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - Unit price minus fully loaded unit COS.
+   */
+  getUnitProfit(month: YYYYMM): MajikMoney {
+    return this.getUnitPrice(month).subtract(this.getUnitCost(month));
+  }
+
+  get price(): MajikMoney {
+    return this.rate.amount.isZero() ? this.DEFAULT_ZERO() : this.rate.amount;
+  }
+
+  /**
+   * Returns the finance snapshot for a specific month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {string} [currencyCode] - Currency to report in, converted at the month's FX rate. Defaults to the base currency.
+   * @returns {MonthlySnapshot} - Revenue, discounts, tax, COS, profit and net lines for the month.
+   */
+  getMonthlySnapshot(month: YYYYMM, currencyCode?: string): MonthlySnapshot {
+    const tax = this.getTaxBreakdown(month);
+    const convert = (money: MajikMoney) =>
+      currencyCode ? this.convert(money, currencyCode, month) : money;
+    return {
+      month,
+      revenue: convert(this.getRevenue(month)),
+      baseRevenue: convert(this.getBaseRevenue(month)),
+      addOnRevenue: convert(this.getAddOnRevenue(month)),
+      cashRevenue: convert(this.getCashRevenue(month)),
+      usageRevenue: convert(this.getUsageRevenue(month)),
+      discounts: convert(this.getDiscountAmount(month)),
+      taxCollected: convert(tax.taxCollected),
+      taxWithheld: convert(tax.withholding),
+      cogs: convert(this.getCOS(month)),
+      profit: convert(this.getProfit(month)),
+      margin: this.getMargin(month),
+      netRevenue: convert(this.getNetRevenue(month)),
+      netIncome: convert(this.getNetIncome(month)),
+    };
+  }
+
+  /**
+   * Calculates Net Revenue for a given month.
+   * Scheduled discounts (see `addDiscount`) and tax included in the price (see `setTaxConfig`) are always deducted.
+   * @param month - YYYYMM
+   * @param discounts - Additional ad-hoc discounts for the month (optional)
+   * @param returns - Total returns for the month (optional)
+   * @param allowances - Total allowances for the month (optional)
+   * @returns {MajikMoney} Net Revenue
+   */
+  getNetRevenue(
+    month: YYYYMM,
+    discounts?: MajikMoney,
+    returns?: MajikMoney,
+    allowances?: MajikMoney
+  ): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    let net = this.getTaxBreakdown(month).netOfTax;
+    if (discounts) net = net.subtract(discounts);
+    if (returns) net = net.subtract(returns);
+    if (allowances) net = net.subtract(allowances);
+    return net;
+  }
+
+  /**
+   * Calculates Net Profit for a given month.
+   * Acquisition spend (see `setAcquisitionCost`) is always deducted.
+   * @param month - YYYYMM
+   * @param operatingExpenses - Total operating expenses (optional)
+   * @param taxes - Total taxes (optional)
+   * @param discounts - Total discounts for the month (optional)
+   * @param returns - Total returns for the month (optional)
+   * @param allowances - Total allowances for the month (optional)
+   * @returns {MajikMoney} Net Profit
+   */
+  getNetProfit(
+    month: YYYYMM,
+    operatingExpenses?: MajikMoney,
+    taxes?: MajikMoney,
+    discounts?: MajikMoney,
+    returns?: MajikMoney,
+    allowances?: MajikMoney
+  ): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    let netRev = this.getNetRevenue(
+      month,
+      discounts,
+      returns,
+      allowances
+    ).subtract(this.getAcquisitionSpend(month));
+    if (operatingExpenses) netRev = netRev.subtract(operatingExpenses);
+    if (taxes) netRev = netRev.subtract(taxes);
+    return netRev;
+  }
+
+  /**
+   * Alias for getNetProfit, same as Net Income
+   */
+  getNetIncome(
+    month: YYYYMM,
+    operatingExpenses?: MajikMoney,
+    taxes?: MajikMoney,
+    discounts?: MajikMoney,
+    returns?: MajikMoney,
+    allowances?: MajikMoney
+  ): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.getNetProfit(
+      month,
+      operatingExpenses,
+      taxes,
+      discounts,
+      returns,
+      allowances
+    );
+  }
+
+  /* ------------------ MONTHLY FINANCE ------------------ */
+
+  /**
+   * Returns revenue for a specific month (accrual basis), base plan and add-ons combined.
+   * Months where the subscription is suspended or cancelled earn no revenue.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {string} [currencyCode] - Currency to report in. Defaults to the base currency.
+   * @returns {MajikMoney} - Monthly revenue.
+   */
+  getRevenue(month: YYYYMM, currencyCode?: string): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan) return this.DEFAULT_ZERO(currencyCode);
+    const revenue = this.getBaseRevenue(month).add(this.getAddOnRevenue(month));
+    return currencyCode ? this.convert(revenue, currencyCode, month) : revenue;
+  }
+
+  /**
+   * Returns base plan revenue for a specific month (accrual basis), excluding add-ons.
+   * The rate is normalized to its monthly equivalent using the billing cycle.
+   * Includes paid-trial revenue, metered usage revenue and recorded prorations.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - Monthly base revenue.
+   */
+  getBaseRevenue(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan) return this.DEFAULT_ZERO();
+    return this.computeMonthlyCharge(this.getBillableUnits(month), month)
+      .add(this.getTrialRevenue(month))
+      .add(this.getUsageRevenue(month))
+      .add(this.getProrationRevenue(month));
+  }
+
+  /**
+   * Returns recurring revenue for a specific month (accrual basis): the base rate plus add-ons.
+   * Paid-trial, metered usage and proration charges are not recurring and are left out;
+   * they are reported by `getTrialRevenue`, `getUsageRevenue` and `getProrationRevenue`.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {string} [currencyCode] - Currency to report in. Defaults to the base currency.
+   * @returns {MajikMoney} - Monthly recurring revenue.
+   */
+  getRecurringRevenue(month: YYYYMM, currencyCode?: string): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan) return this.DEFAULT_ZERO(currencyCode);
+    const revenue = this.computeMonthlyCharge(
+      this.getBillableUnits(month),
+      month
+    ).add(this.getAddOnRevenue(month));
+    return currencyCode ? this.convert(revenue, currencyCode, month) : revenue;
+  }
+
+  /**
+   * Returns revenue billed in a specific month (cash basis).
+   * The full invoice amount is recognized in the month it is billed,
+   * e.g. every third month for quarterly plans, starting at the earliest capacity month.
+   * Trial, metered usage and proration charges are invoiced monthly; add-ons follow their own billing cycle.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikMoney} - Revenue invoiced in the month.
+   */
+  getCashRevenue(month: YYYYMM): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan) return this.DEFAULT_ZERO();
+    const invoices = billingEventsInMonth(
+      this.rate.billingCycle,
+      this.earliestCapacityMonth!,
+      month,
+      this.rate.anchorDay
+    );
+    const monthly = this.getTrialRevenue(month)
+      .add(this.getUsageRevenue(month))
+      .add(this.getProrationRevenue(month, RevenueBasis.CASH))
+      .add(this.getAddOnCashRevenue(month));
+    if (invoices === 0) return monthly;
+    return this.computeCycleCharge(this.getBillableUnits(month), month)
+      .multiply(invoices)
+      .add(monthly);
+  }
+
+  /**
+   * Returns true if an invoice is issued in the given month under the current billing cycle.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {boolean}
+   */
+  isBillingMonth(month: YYYYMM): boolean {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const anchor = this.earliestCapacityMonth;
+    if (!anchor) return false;
+    return (
+      billingEventsInMonth(
+        this.rate.billingCycle,
+        anchor,
+        month,
+        this.rate.anchorDay
+      ) > 0
+    );
+  }
+
+  /**
+   * Returns all COS items.
+   * @returns {readonly COSItem[]} - Array of COS items.
+   */
+  get cos(): readonly COSItem[] {
+    return this.metadata.cos;
+  }
+
+  /**
+   * Returns COS for a specific month.
+   * Variable items scale with subscribers, fixed items are charged per month,
+   * step items per block of subscribers and one-off items only in their month.
+   * Suspended or cancelled months only incur fixed and one-off costs.
+   * COS items in other currencies are converted at the month's FX rate.
+   * Add-on COS is included.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {string} [currencyCode] - Currency to report in. Defaults to the base currency.
+   * @returns {MajikMoney} - Monthly COS.
+   */
+  getCOS(month: YYYYMM, currencyCode?: string): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    if (!plan) return this.DEFAULT_ZERO(currencyCode);
+    const cos = this.computeMonthlyCOS(month, this.getServedUnits(month)).add(
+      this.getAddOnCOS(month)
+    );
+    return currencyCode ? this.convert(cos, currencyCode, month) : cos;
+  }
+
+  /**
+   * Alias for Get COS. Retrieves COS for a given month.
+   * @param month - YYYYMM month.
+   * @returns {MajikMoney} COS for the month.
+   */
+  getCost(month: YYYYMM): MajikMoney {
+    return this.getCOS(month);
+  }
+
+  /**
+   * Returns profit for a specific month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {string} [currencyCode] - Currency to report in. Defaults to the base currency.
+   * @returns {MajikMoney} - Monthly profit.
+   */
+  getProfit(month: YYYYMM, currencyCode?: string): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    return this.getRevenue(month, currencyCode).subtract(
+      this.getCOS(month, currencyCode)
+    );
+  }
+
+  /**
+   * Returns profit margin (as a decimal) for a specific month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {number} - Profit margin (0–1).
+   */
+  getMargin(month: YYYYMM): number {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const revenue = this.getRevenue(month);
+    return revenue.isZero()
+      ? 0
+      : this.getProfit(month)
+          .divideDecimal(revenue.toMajorDecimal())
+          .toNumber();
+  }
+
+  /* ------------------ PLAN VS ACTUALS ------------------ */
+
+  /**
+   * Returns all recorded actuals, sorted by month.
+   * @returns {readonly MonthlyActuals[]} - Array of monthly actuals.
+   */
+  get actuals(): readonly MonthlyActuals[] {
+    return [...(this.metadata.actuals ?? [])].sort((a, b) =>
+      a.month.localeCompare(b.month)
+    );
+  }
+
+  /**
+   * Records what actually happened in a month. Merges with previously recorded actuals for the month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {Omit<MonthlyActuals, "month">} actuals - Actual subscribers, revenue collected and COS.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the month, subscribers or currencies are invalid.
+   */
+  recordActuals(month: YYYYMM, actuals: Omit<MonthlyActuals, "month">): this {
+    return this.runJournaled("recordActuals", [month, actuals], () => {
+      if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+      if (
+        actuals.subscribers !== undefined &&
+        (!Number.isFinite(actuals.subscribers) || actuals.subscribers < 0)
+      ) {
+        throw new Error("Actual subscribers must be a non-negative number");
+      }
+      if (actuals.revenue) this.assertCurrency(actuals.revenue);
+      if (actuals.cos) this.assertCurrency(actuals.cos);
+
+      const list = this.metadata.actuals ?? [];
+      const existing = list.find((a) => a.month === month);
+      this.metadata.actuals = [
+        ...list.filter((a) => a.month !== month),
+        { ...existing, ...actuals, month },
+      ];
+      this.updateTimestamp();
+      return this;
+    });
+  }
+
+  /**
+   * Removes the actuals recorded for a month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if no actuals exist for the month.
+   */
+  removeActuals(month: YYYYMM): this {
+    return this.runJournaled("removeActuals", [month], () => {
+      if (!this.metadata.actuals?.some((a) => a.month === month))
+        throw new Error(`No actuals recorded for ${month}`);
+      this.metadata.actuals = this.metadata.actuals.filter(
+        (a) => a.month !== month
+      );
+      this.updateTimestamp();
+      return this;
+    });
+  }
+
+  /** Clears all recorded actuals. */
+  clearActuals(): this {
+    return this.runJournaled("clearActuals", [], () => {
+      this.metadata.actuals = [];
+      this.updateTimestamp();
+      return this;
+    });
+  }
+
+  /**
+   * Returns plan vs actual vs delta for subscribers, revenue, COS and profit in a month.
+   * Figures not recorded for the month are taken from the plan (zero variance).
+   * Actual revenue is revenue collected, so planned revenue defaults to the cash basis.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {RevenueBasis} [basis=RevenueBasis.CASH] - Basis of the planned revenue.
+   * @returns {MonthlyVariance} - Variance for the month.
+   * @throws {Error} - Throws if no actuals are recorded for the month.
+   */
+  getVariance(
+    month: YYYYMM,
+    basis: RevenueBasis = RevenueBasis.CASH
+  ): MonthlyVariance {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    const actual = this.metadata.actuals?.find((a) => a.month === month);
+    if (!actual) throw new Error(`No actuals recorded for ${month}`);
+
+    const planned = this.getPlannedMonth(month, basis);
+    const line = (plan: MajikMoney, value: MajikMoney): VarianceLine => {
+      const delta = value.subtract(plan);
+      return {
+        plan,
+        actual: value,
+        delta,
+        deltaPercent: plan.isZero() ? 0 : delta.ratio(plan),
+      };
+    };
+
+    const subscribers = actual.subscribers ?? planned.subscribers;
+    const revenue = actual.revenue ?? planned.revenue;
+    const cos = actual.cos ?? planned.cos;
+    const subscriberDelta = subscribers - planned.subscribers;
+
+    return {
+      month,
+      subscribers: {
+        plan: planned.subscribers,
+        actual: subscribers,
+        delta: subscriberDelta,
+        deltaPercent:
+          planned.subscribers === 0 ? 0 : subscriberDelta / planned.subscribers,
+      },
+      revenue: line(planned.revenue, revenue),
+      cos: line(planned.cos, cos),
+      profit: line(planned.profit, revenue.subtract(cos)),
+    };
+  }
+
+  /**
+   * Returns the variance for every month with recorded actuals.
+   * @param {RevenueBasis} [basis=RevenueBasis.CASH] - Basis of the planned revenue.
+   * @returns {MonthlyVariance[]} - Variances sorted by month.
+   */
+  getVarianceReport(
+    basis: RevenueBasis = RevenueBasis.CASH
+  ): MonthlyVariance[] {
+    return this.actuals.map((a) => this.getVariance(a.month, basis));
+  }
+
+  /**
+   * Re-forecasts the plan: closed months (up to `asOf`) use actuals, later months use the plan.
+   * Figures not recorded for a closed month are taken from the plan.
+   * @param {YYYYMM} [asOf] - Last closed month. Defaults to the latest month with actuals.
+   * @param {RevenueBasis} [basis=RevenueBasis.CASH] - Basis of the planned revenue.
+   * @returns {RollingForecast} - Monthly figures with their source, and totals.
+   */
+  getRollingForecast(
+    asOf?: YYYYMM,
+    basis: RevenueBasis = RevenueBasis.CASH
+  ): RollingForecast {
+    if (asOf !== undefined && !isValidYYYYMM(asOf))
+      throw new Error("Invalid month");
+    const actuals = this.actuals;
+    const closedThrough = asOf ?? actuals[actuals.length - 1]?.month ?? null;
+
+    const months = [
+      ...new Set([
+        ...(this.metadata.capacityPlan ?? []).map((s) => s.month),
+        ...actuals.map((a) => a.month),
+      ]),
+    ].sort();
+
+    const rows = months.map((month): ReforecastMonth => {
+      const planned = this.getPlannedMonth(month, basis);
+      const actual = actuals.find((a) => a.month === month);
+      if (!actual || !closedThrough || month > closedThrough) {
+        return { month, source: "plan", ...planned };
+      }
+
+      const revenue = actual.revenue ?? planned.revenue;
+      const cos = actual.cos ?? planned.cos;
+      return {
+        month,
+        source: "actual",
+        subscribers: actual.subscribers ?? planned.subscribers,
+        revenue,
+        cos,
+        profit: revenue.subtract(cos),
+      };
+    });
+
+    const sum = (key: "revenue" | "cos" | "profit") =>
+      rows.reduce((acc, r) => acc.add(r[key]), this.DEFAULT_ZERO());
+
+    return {
+      asOf: closedThrough,
+      months: rows,
+      revenue: sum("revenue"),
+      cos: sum("cos"),
+      profit: sum("profit"),
+    };
+  }
+
+  /**
+   * Returns the planned subscribers, revenue, COS and profit for a month.
+   * @private
+   */
+  private getPlannedMonth(
+    month: YYYYMM,
+    basis: RevenueBasis
+  ): Omit<ReforecastMonth, "month" | "source"> {
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    const revenue =
+      basis === RevenueBasis.CASH
+        ? this.getCashRevenue(month)
+        : this.getRevenue(month);
+    const cos = this.getCOS(month);
+    return {
+      subscribers: plan ? effectiveSubscribers(plan) : 0,
+      revenue,
+      cos,
+      profit: revenue.subtract(cos),
+    };
+  }
+
+  /* ------------------ SOLVERS ------------------ */
+
+  /**
+   * Returns the smallest number of paying subscribers at which the rate covers COS in a month.
+   * Evaluates the pricing model and every COS kind (fixed, variable, step, one-off) at each candidate count.
+   * Counts are doubled until COS is covered, then the bracket is scanned one by one. Brackets wider than
+   * 10,000 subscribers are binary searched instead, which assumes coverage does not drop as subscribers
+   * grow; with step COS or tiered pricing the result may then not be the smallest.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {number | null} - Break-even subscriber count, or null if the rate never covers COS.
+   */
+  getBreakEvenSubscribers(month: YYYYMM): number | null {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+
+    const MAX_SUBSCRIBERS = 1_000_000_000;
+    const MAX_SCAN = 10_000;
+    const covers = (units: number) =>
+      this.computeMonthlyCharge(units, month).toMajor() >=
+      this.computeMonthlyCOS(month, units).toMajor();
+
+    // No fixed COS: zero subscribers only break even if each one contributes
+    if (covers(0) && covers(1)) return 0;
+
+    let low = 0;
+    let high = 1;
+    while (!covers(high)) {
+      low = high;
+      high *= 2;
+      if (high > MAX_SUBSCRIBERS) return null;
+    }
+
+    if (high - low <= MAX_SCAN) {
+      for (let units = low + 1; units < high; units++) {
+        if (covers(units)) return units;
+      }
+      return high;
+    }
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (covers(mid)) high = mid;
+      else low = mid;
+    }
+    return high;
+  }
+
+  /**
+   * Returns the rate amount needed for a target gross margin, given the current COS and capacity plan.
+   * Tiers and regional prices are assumed to scale with the rate; add-on, usage and trial revenue are held constant.
+   * @param {number} targetMargin - Target margin (e.g. 0.6 = 60%), below 1.
+   * @param {YYYYMM} [month] - Solve for a single month. Omit for the whole plan.
+   * @returns {MajikMoney} - Required rate amount per billing cycle (zero if any price meets the target).
+   * @throws {Error} - Throws if the margin is invalid or there is no rate revenue to scale.
+   */
+  solvePriceForMargin(targetMargin: number, month?: YYYYMM): MajikMoney {
+    if (!Number.isFinite(targetMargin) || targetMargin >= 1) {
+      throw new Error("Target margin must be below 1");
+    }
+    const { cos } = this.getSolverTotals(month);
+    return this.solveRateForRevenue(cos.divide(1 - targetMargin), month);
+  }
+
+  /**
+   * Returns the rate amount needed for a target gross profit, given the current COS and capacity plan.
+   * Tiers and regional prices are assumed to scale with the rate; add-on, usage and trial revenue are held constant.
+   * @param {MajikMoney} targetProfit - Target gross profit for the month or the whole plan.
+   * @param {YYYYMM} [month] - Solve for a single month. Omit for the whole plan.
+   * @returns {MajikMoney} - Required rate amount per billing cycle (zero if any price meets the target).
+   * @throws {Error} - Throws if there is no rate revenue to scale.
+   */
+  solvePriceForProfit(targetProfit: MajikMoney, month?: YYYYMM): MajikMoney {
+    this.assertCurrency(targetProfit);
+    const { cos } = this.getSolverTotals(month);
+    return this.solveRateForRevenue(targetProfit.add(cos), month);
+  }
+
+  /**
+   * Returns the highest fully loaded COS per paying subscriber that still meets a margin floor.
+   * Compare with `getUnitCost(month)`.
+   * @param {number} marginFloor - Minimum margin (e.g. 0.6 = 60%), below 1.
+   * @param {YYYYMM} [month] - Solve for a single month. Omit for the whole plan.
+   * @returns {MajikMoney} - Maximum COS per subscriber per month (zero if there are no paying subscribers).
+   */
+  getMaxUnitCost(marginFloor: number, month?: YYYYMM): MajikMoney {
+    if (!Number.isFinite(marginFloor) || marginFloor >= 1) {
+      throw new Error("Margin floor must be below 1");
+    }
+    const { revenue, units } = this.getSolverTotals(month);
+    if (units <= 0) return this.DEFAULT_ZERO();
+    return revenue.multiply(1 - marginFloor).divide(units);
+  }
+
+  /**
+   * Returns the rate amount at which total revenue reaches `required`, scaling only the rate revenue.
+   * @private
+   */
+  private solveRateForRevenue(
+    required: MajikMoney,
+    month?: YYYYMM
+  ): MajikMoney {
+    const { revenue, rateRevenue } = this.getSolverTotals(month);
+    if (rateRevenue.isZero()) {
+      throw new Error("No rate revenue to solve against");
+    }
+
+    const otherRevenue = revenue.subtract(rateRevenue);
+    const factor = required.subtract(otherRevenue).ratio(rateRevenue);
+    return factor > 0 ? this.rate.amount.multiply(factor) : this.DEFAULT_ZERO();
+  }
+
+  /**
+   * Returns revenue, rate revenue, COS and paying subscribers for a month or the whole plan.
+   * @private
+   */
+  private getSolverTotals(month?: YYYYMM): {
+    revenue: MajikMoney;
+    rateRevenue: MajikMoney;
+    cos: MajikMoney;
+    units: number;
+  } {
+    if (month !== undefined && !isValidYYYYMM(month))
+      throw new Error("Invalid month");
+    const months = month
+      ? [month]
+      : (this.metadata.capacityPlan ?? []).map((s) => s.month);
+
+    return months.reduce(
+      (acc, m) => {
+        const units = this.getBillableUnits(m);
+        return {
+          revenue: acc.revenue.add(this.getRevenue(m)),
+          rateRevenue: acc.rateRevenue.add(this.computeMonthlyCharge(units, m)),
+          cos: acc.cos.add(this.getCOS(m)),
+          units: acc.units + units,
+        };
+      },
+      {
+        revenue: this.DEFAULT_ZERO(),
+        rateRevenue: this.DEFAULT_ZERO(),
+        cos: this.DEFAULT_ZERO(),
+        units: 0,
+      }
+    );
+  }
+
+  /* ------------------ INVOICE SCHEDULE ------------------ */
+
+  /**
+   * Generates the invoices over the capacity plan.
+   * Invoices are issued in advance on the anchor day (UTC), every day, week, month, quarter or year
+   * from the first capacity month, and bill the subscribers of the billing date's month.
+   * The month's add-on, usage, paid trial and proration charges are added to its first invoice,
+   * or invoiced on the anchor day when no base invoice falls in the month, so each month's
+   * invoices add up to {@link getCashRevenue} (unless `options.anchorDay` overrides the rate's anchor day).
+   * Scheduled discounts and tax lines are applied per invoice.
+   * Months without a plan entry, or where the subscription is suspended or cancelled, are not invoiced.
+   * @param {InvoiceScheduleOptions} [options] - Month range and anchor day override.
+   * @returns {InvoiceRecord[]} - Invoices in billing date order.
+   * @throws {Error} - Throws if the anchor day or month range is invalid.
+   */
+  generateInvoiceSchedule(
+    options: InvoiceScheduleOptions = {}
+  ): InvoiceRecord[] {
+    const first = this.earliestCapacityMonth;
+    const last = this.latestCapacityMonth;
+    if (!first || !last) return [];
+
+    const anchorDay = options.anchorDay ?? this.rate.anchorDay ?? 1;
+    if (!Number.isInteger(anchorDay) || anchorDay < 1 || anchorDay > 31) {
+      throw new Error("Anchor day must be an integer between 1 and 31");
+    }
+    if (options.from && !isValidYYYYMM(options.from))
+      throw new Error("Invalid from month");
+    if (options.to && !isValidYYYYMM(options.to))
+      throw new Error("Invalid to month");
+
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const cycle = this.rate.billingCycle;
+    const monthsCovered = 1 / billingCycleMonthlyFactor(cycle);
+    const invoices: InvoiceRecord[] = [];
+
+    let date = anchorDateInMonth(first, anchorDay);
+    for (
+      let month = first;
+      month <= last;
+      month = offsetMonthsToYYYYMM(month, 1)
+    ) {
+      const periods: [Date, Date][] = [];
+      while (dateToYYYYMM(date) === month) {
+        const next = nextBillingDateAfter(cycle, date, anchorDay);
+        periods.push([date, next]);
+        date = next;
+      }
+
+      const inRange =
+        (!options.from || month >= options.from) &&
+        (!options.to || month <= options.to);
+      const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+      if (!inRange || !plan || !this.isBillable(month)) continue;
+
+      // Monthly charges go on the month's first invoice; months between base
+      // billing dates get an invoice of their own when they have any.
+      const charges = this.computeMonthlyInvoiceLines(month);
+      const chargesOnly = periods.length === 0;
+      if (chargesOnly) {
+        if (charges.length === 0) continue;
+        periods.push([
+          anchorDateInMonth(month, anchorDay),
+          anchorDateInMonth(offsetMonthsToYYYYMM(month, 1), anchorDay),
+        ]);
+      }
+
+      const quantity = chargesOnly
+        ? 0
+        : Math.max(0, this.getBillableUnits(month));
+      const base = this.computeCycleCharge(quantity, month);
+
+      periods.forEach(([start, next], i) => {
+        const lines: InvoiceLine[] = chargesOnly
+          ? []
+          : [
+              {
+                kind: InvoiceLineKind.BASE,
+                description: this.name,
+                quantity,
+                amount: base,
+              },
+            ];
+        if (i === 0) lines.push(...charges);
+
+        const subtotal = lines.reduce(
+          (acc, l) => acc.add(l.amount),
+          this.DEFAULT_ZERO()
+        );
+        const discounts = this.computeInvoiceDiscounts(
+          month,
+          subtotal,
+          quantity,
+          chargesOnly ? 0 : monthsCovered
+        );
+        const discountTotal = discounts.reduce(
+          (acc, d) => acc.add(d.amount),
+          this.DEFAULT_ZERO()
+        );
+        const {
+          netOfTax,
+          lines: taxLines,
+          taxCollected,
+        } = this.computeTax(subtotal.subtract(discountTotal));
+
+        invoices.push({
+          invoiceNumber: invoices.length + 1,
+          subscriptionId: this.id,
+          billingDate: start.toISOString(),
+          periodStart: start.toISOString(),
+          periodEnd: new Date(next.getTime() - DAY_MS).toISOString(),
+          quantity,
+          unitPrice: quantity > 0 ? base.divide(quantity) : base,
+          lines,
+          subtotal,
+          discounts,
+          discountTotal,
+          netOfTax,
+          taxLines,
+          taxTotal: taxCollected,
+          total: netOfTax.add(taxCollected),
+        });
+      });
+    }
+
+    return invoices;
+  }
+
+  /**
+   * Returns the invoice schedule as plain JSON-serializable records.
+   * @param {InvoiceScheduleOptions} [options] - Month range and anchor day override.
+   * @returns {object[]} - Serialized invoice records.
+   */
+  invoiceScheduleToJSON(options: InvoiceScheduleOptions = {}): object[] {
+    return serializeMoney(this.generateInvoiceSchedule(options));
+  }
+
+  /**
+   * Returns the charges invoiced once per month on top of the base rate:
+   * add-ons due in the month, metered usage, paid trial users and recorded prorations.
+   * Together with the base rate they make up {@link getCashRevenue}.
+   * @private
+   */
+  private computeMonthlyInvoiceLines(month: YYYYMM): InvoiceLine[] {
+    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+    const lines: InvoiceLine[] = [];
+
+    for (const a of this.addOns) {
+      const invoices = billingEventsInMonth(
+        a.rate.billingCycle,
+        this.earliestCapacityMonth!,
+        month,
+        a.rate.anchorDay
+      );
+      if (invoices === 0) continue;
+      const units = this.getAddOnSubscribers(a.id, month);
+      lines.push({
+        kind: InvoiceLineKind.ADD_ON,
+        description: a.name,
+        quantity: units,
+        amount: computeRateCharge(a.rate, units).multiply(invoices),
+      });
+    }
+    for (const c of this.meteredComponents) {
+      lines.push({
+        kind: InvoiceLineKind.USAGE,
+        description: c.name,
+        quantity: plan?.usage?.[c.id] ?? 0,
+        amount: this.getUsageRevenue(month, c.id),
+      });
+    }
+    lines.push({
+      kind: InvoiceLineKind.TRIAL,
+      description: "Paid trial",
+      quantity: this.getTrialFunnel(month).trialUsers,
+      amount: this.getTrialRevenue(month),
+    });
+    lines.push({
+      kind: InvoiceLineKind.PRORATION,
+      description: "Proration",
+      quantity: 1,
+      amount: this.getProrationRevenue(month, RevenueBasis.CASH),
+    });
+
+    return lines.filter((l) => !l.amount.isZero());
+  }
+
+  /**
+   * Computes the scheduled discounts on one invoice.
+   * Percentage discounts apply to the covered share of the subtotal; fixed monthly amounts
+   * scale with the months the invoice covers. Each discount and the total are capped at the subtotal.
+   * @private
+   */
+  private computeInvoiceDiscounts(
+    month: YYYYMM,
+    subtotal: MajikMoney,
+    quantity: number,
+    monthsCovered: number
+  ): InvoiceDiscountLine[] {
+    let remaining = subtotal;
+
+    return this.discounts
+      .filter((d) => isDiscountActive(d, month))
+      .map((d) => {
+        const covered = subtotal.multiply(d.subscriberShare);
+        let amount =
+          d.type === DiscountType.PERCENTAGE
+            ? covered.multiply(d.percentage!)
+            : d.amount!.multiply(quantity * d.subscriberShare * monthsCovered);
+        if (amount.toMajor() > covered.toMajor()) amount = covered;
+        if (amount.toMajor() > remaining.toMajor()) amount = remaining;
+        remaining = remaining.subtract(amount);
+        return { discountId: d.id, name: d.name, amount };
+      })
+      .filter((d) => !d.amount.isZero());
+  }
+
+  /* ------------------ PRORATION ------------------ */
+
+  /**
+   * Computes the credit and charge lines for a mid-cycle plan change (seats, rate or billing cycle).
+   * The old plan is credited for the unused part of its current billing period.
+   * If the billing cycle is unchanged, the new plan is charged for the same remaining days;
+   * otherwise a new full cycle starts on the change date.
+   * @param {ProrationChange} change - Change date, old and new rate/quantity, and policy.
+   * @returns {ProrationResult} - Credit and charge lines, net, amount due and carried-forward credit.
+   * @throws {Error} - Throws if the date is invalid, precedes the first billing date, or a rate uses another currency.
+   */
+  prorate(change: ProrationChange): ProrationResult {
+    const date = new Date(change.changeDate);
+    if (isNaN(date.getTime())) throw new Error("Invalid change date");
+
+    const policy = change.policy ?? ProrationPolicy.DAILY;
+    if (!Object.values(ProrationPolicy).includes(policy)) {
+      throw new Error("Invalid proration policy");
+    }
+
+    const month = dateToYYYYMM(date);
+    const from: ProrationPlan = {
+      rate: change.from?.rate ?? this.rate,
+      quantity: change.from?.quantity ?? this.getBillableUnits(month),
+    };
+    const to: ProrationPlan = {
+      rate: change.to.rate ?? from.rate,
+      quantity: change.to.quantity ?? from.quantity,
+    };
+    [from, to].forEach((p) => {
+      assertValidPricing(p.rate);
+      this.assertCurrency(p.rate.amount);
+      if (!Number.isFinite(p.quantity) || p.quantity < 0)
+        throw new Error("Quantity must be a non-negative number");
+    });
 
-    const grossRevenue = this.computeGrossRevenue();
-    const grossCOS = this.computeGrossCOS();
-    const grossProfit = this.computeGrossProfit();
-    const grossIncome = grossProfit;
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const anchorDay = from.rate.anchorDay ?? 1;
+    let periodStart = anchorDateInMonth(
+      this.earliestCapacityMonth ?? month,
+      anchorDay
+    );
+    if (date < periodStart) {
+      throw new Error("Change date precedes the first billing date");
+    }
+    let periodEnd = nextBillingDateAfter(
+      from.rate.billingCycle,
+      periodStart,
+      anchorDay
+    );
+    while (periodEnd <= date) {
+      periodStart = periodEnd;
+      periodEnd = nextBillingDateAfter(
+        from.rate.billingCycle,
+        periodStart,
+        anchorDay
+      );
+    }
 
-    const revenueMargin = grossRevenue.isZero()
-      ? 0
-      : grossProfit.ratio(grossRevenue);
-    const cosMargin = grossRevenue.isZero() ? 0 : grossCOS.ratio(grossRevenue);
+    const zero = this.DEFAULT_ZERO();
+    const changeISO = date.toISOString();
+    const lines: ProrationLine[] = [];
+
+    if (policy !== ProrationPolicy.NONE) {
+      const remaining =
+        (periodEnd.getTime() - date.getTime()) /
+        (periodEnd.getTime() - periodStart.getTime());
+      const lastDay = (end: Date) =>
+        new Date(end.getTime() - DAY_MS).toISOString();
+
+      lines.push({
+        kind: "credit",
+        description: `Unused time on ${from.quantity} × ${from.rate.billingCycle} plan`,
+        periodStart: changeISO,
+        periodEnd: lastDay(periodEnd),
+        amount: computeRateCharge(from.rate, from.quantity).multiply(remaining),
+      });
 
-    this.metadata.finance = {
-      revenue: {
-        gross: { value: grossRevenue, marginRatio: 1 },
-        net: { value: grossRevenue, marginRatio: 1 },
-      },
-      cos: {
-        gross: { value: grossCOS, marginRatio: cosMargin },
-        net: { value: grossCOS, marginRatio: cosMargin },
-      },
-      profit: {
-        gross: { value: grossProfit, marginRatio: revenueMargin },
-        net: { value: grossProfit, marginRatio: revenueMargin },
-      },
-      income: {
-        gross: { value: grossIncome, marginRatio: revenueMargin },
-        net: { value: grossIncome, marginRatio: revenueMargin },
-      },
+      if (to.rate.billingCycle === from.rate.billingCycle) {
+        lines.push({
+          kind: "charge",
+          description: `Remaining time on ${to.quantity} × ${to.rate.billingCycle} plan`,
+          periodStart: changeISO,
+          periodEnd: lastDay(periodEnd),
+          amount: computeRateCharge(to.rate, to.quantity).multiply(remaining),
+        });
+      } else {
+        const newEnd = nextBillingDateAfter(
+          to.rate.billingCycle,
+          date,
+          date.getUTCDate()
+        );
+        lines.push({
+          kind: "charge",
+          description: `${to.quantity} × ${to.rate.billingCycle} plan`,
+          periodStart: changeISO,
+          periodEnd: lastDay(newEnd),
+          amount: computeRateCharge(to.rate, to.quantity),
+        });
+      }
+    }
+
+    const total = (kind: ProrationLine["kind"]) =>
+      lines
+        .filter((l) => l.kind === kind)
+        .reduce((acc, l) => acc.add(l.amount), zero);
+    const credit = total("credit");
+    const charge = total("charge");
+    const net = charge.subtract(credit);
+    const carryForward =
+      policy === ProrationPolicy.CREDIT_ON_DOWNGRADE && net.toMajor() < 0;
+
+    return {
+      changeDate: changeISO,
+      policy,
+      lines,
+      credit,
+      charge,
+      net,
+      amountDue: carryForward ? zero : net,
+      creditBalance: carryForward ? credit.subtract(charge) : zero,
     };
+  }
 
-    this.financeDirty = false;
+  /**
+   * Records a proration against the capacity plan month of its change date.
+   * Cash revenue takes the amount due in the change month; accrual revenue spreads it daily
+   * over the partial periods it covers, e.g. the rest of a new yearly period.
+   * Keep the change month at the old quantity; the proration adds the difference.
+   * Only the amount due is recorded: a credit carried forward under CREDIT_ON_DOWNGRADE is not revenue.
+   * @param {ProrationResult} result - Result of `prorate`.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws {Error} - Throws if the change month has no capacity plan entry.
+   */
+  recordProration(result: ProrationResult): this {
+    return this.runJournaled("recordProration", [result], () => {
+      const month = isoToYYYYMM(result.changeDate);
+      const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+      if (!plan) throw new Error(`No capacity plan entry for ${month}`);
+
+      plan.prorations = [
+        ...(plan.prorations ?? []),
+        {
+          changeDate: result.changeDate,
+          policy: result.policy,
+          amount: result.amountDue,
+          periodEnd: result.lines.reduce(
+            (end, l) => (l.periodEnd > end ? l.periodEnd : end),
+            result.changeDate
+          ),
+        },
+      ];
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
   }
 
-  /* ------------------ AGGREGATE FINANCE GETTERS ------------------ */
+  /**
+   * Removes all recorded prorations from a capacity plan month.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   */
+  clearProrations(month: YYYYMM): this {
+    return this.runJournaled("clearProrations", [month], () => {
+      if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+      const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+      if (plan) delete plan.prorations;
+      this.updateTimestamp();
+      this.markFinanceDirty();
+      return this;
+    });
+  }
 
-  get averageMonthlyRevenue(): MajikMoney {
-    const months = this.metadata.capacityPlan?.length ?? 0;
-    if (months === 0) return this.DEFAULT_ZERO();
-    return this.grossRevenue.divide(months);
+  /**
+   * Returns the proration revenue of a month. Suspended or cancelled months have none.
+   * On the cash basis, the amounts recorded in the month; on the accrual basis, the share of every
+   * recorded amount for the days of the month it covers.
+   * @param {YYYYMM} month - Month in YYYY-MM format.
+   * @param {RevenueBasis} [basis=RevenueBasis.ACCRUAL] - Spread over the covered days, or as invoiced.
+   * @returns {MajikMoney} - Proration revenue (negative for refunds).
+   */
+  getProrationRevenue(
+    month: YYYYMM,
+    basis: RevenueBasis = RevenueBasis.ACCRUAL
+  ): MajikMoney {
+    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
+    if (!this.isBillable(month)) return this.DEFAULT_ZERO();
+
+    if (basis === RevenueBasis.CASH) {
+      const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
+      return (plan?.prorations ?? []).reduce(
+        (acc, p) => acc.add(p.amount),
+        this.DEFAULT_ZERO()
+      );
+    }
+
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const day = (iso: string) => Math.floor(Date.parse(iso) / DAY_MS);
+    const monthStart = yyyyMMToDate(month).getTime() / DAY_MS;
+    const monthEnd = monthStart + daysInMonth(month) - 1;
+
+    return (this.metadata.capacityPlan ?? [])
+      .flatMap((s) => s.prorations ?? [])
+      .reduce((acc, p) => {
+        const start = day(p.changeDate);
+        const end = Math.max(start, day(p.periodEnd ?? p.changeDate));
+        const overlap =
+          Math.min(end, monthEnd) - Math.max(start, monthStart) + 1;
+        if (overlap <= 0) return acc;
+        return acc.add(p.amount.multiply(overlap / (end - start + 1)));
+      }, this.DEFAULT_ZERO());
   }
 
-  get averageMonthlyProfit(): MajikMoney {
-    const months = this.metadata.capacityPlan?.length ?? 0;
-    if (months === 0) return this.DEFAULT_ZERO();
-    return this.grossProfit.divide(months);
+  /* ------------------ SCENARIOS & SENSITIVITY ------------------ */
+
+  /**
+   * Returns a copy of the subscription with scenario overrides applied. The original is not modified.
+   * @param {ScenarioOverrides} overrides - Price change, COS multiplier, churn or growth rate.
+   * @returns {MajikSubscription} - The modified copy.
+   * @throws {Error} - Throws if an override is invalid or cannot be applied.
+   */
+  withScenario(overrides: ScenarioOverrides): MajikSubscription {
+    const { priceChange, cosMultiplier, churn, growthRate } = overrides;
+    if (churn !== undefined && growthRate !== undefined) {
+      throw new Error("Churn and growth rate overrides cannot be combined");
+    }
+
+    const copy = MajikSubscription.parseFromJSON(this.toJSON());
+    copy.fxProvider = this.fxProvider;
+
+    if (priceChange !== undefined) {
+      if (!Number.isFinite(priceChange) || priceChange <= -1)
+        throw new Error("Price change must be greater than -1");
+      const factor = 1 + priceChange;
+      copy.setRate({
+        ...copy.rate,
+        amount: copy.rate.amount.multiply(factor),
+        tiers: copy.rate.tiers?.map((t) => ({
+          ...t,
+          unitAmount: t.unitAmount.multiply(factor),
+          flatAmount: t.flatAmount?.multiply(factor),
+        })),
+      });
+      copy.metadata.regionalPrices = copy.metadata.regionalPrices?.map((r) => ({
+        ...r,
+        amount: r.amount.multiply(factor),
+      }));
+    }
+
+    if (cosMultiplier !== undefined) {
+      if (!Number.isFinite(cosMultiplier) || cosMultiplier < 0)
+        throw new Error("COS multiplier must be a non-negative number");
+      const scale = (c: COSItem): COSItem => {
+        const unitCost = c.unitCost.multiply(cosMultiplier);
+        return { ...c, unitCost, subtotal: unitCost.multiply(c.quantity) };
+      };
+      copy.setCOS(copy.metadata.cos.map(scale));
+      copy.metadata.addOns = copy.metadata.addOns?.map((a) => ({
+        ...a,
+        cos: a.cos.map(scale),
+      }));
+    }
+
+    if (churn !== undefined) {
+      const model = copy.metadata.cohorts;
+      if (!model) throw new Error("Churn override requires a cohort model");
+      copy.applyCohortModel(model.acquisitions, churn, model.startMonth);
+    }
+
+    if (growthRate !== undefined) {
+      const plan = [...(copy.metadata.capacityPlan ?? [])].sort((a, b) =>
+        a.month.localeCompare(b.month)
+      );
+      if (plan.length === 0)
+        throw new Error("Growth rate override requires a capacity plan");
+      copy.generateCapacityPlan(
+        plan.length,
+        plan[0].capacity,
+        growthRate,
+        plan[0].month
+      );
+    }
+
+    copy.markFinanceDirty();
+    return copy;
   }
 
   /**
-   * Returns total gross revenue across all months.
-   * @returns {MajikMoney} - Gross revenue.
+   * Runs a scenario on a copy of the subscription and compares it with the original, month by month.
+   * @param {ScenarioOverrides} overrides - Price change, COS multiplier, churn or growth rate.
+   * @returns {ScenarioResult} - Baseline, scenario and delta totals and per-month figures.
    */
-  get grossRevenue(): MajikMoney {
-    this.recomputeFinance();
-    return this.metadata.finance.revenue.gross.value;
+  runScenario(overrides: ScenarioOverrides): ScenarioResult {
+    const copy = this.withScenario(overrides);
+    const months = [
+      ...new Set([
+        ...(this.metadata.capacityPlan ?? []).map((s) => s.month),
+        ...(copy.metadata.capacityPlan ?? []).map((s) => s.month),
+      ]),
+    ].sort();
+
+    const metricsAt = (
+      sub: MajikSubscription,
+      month: YYYYMM
+    ): ScenarioMetrics => {
+      const revenue = sub.getRevenue(month);
+      const cogs = sub.getCOS(month);
+      const profit = revenue.subtract(cogs);
+      return {
+        revenue,
+        cogs,
+        profit,
+        margin: revenue.isZero() ? 0 : profit.ratio(revenue),
+      };
+    };
+
+    const rows = months.map((month) => {
+      const baseline = metricsAt(this, month);
+      const scenario = metricsAt(copy, month);
+      return {
+        month,
+        baseline,
+        scenario,
+        delta: this.diffMetrics(scenario, baseline),
+      };
+    });
+
+    const totalOf = (key: "baseline" | "scenario"): ScenarioMetrics => {
+      const revenue = rows.reduce(
+        (acc, r) => acc.add(r[key].revenue),
+        this.DEFAULT_ZERO()
+      );
+      const cogs = rows.reduce(
+        (acc, r) => acc.add(r[key].cogs),
+        this.DEFAULT_ZERO()
+      );
+      const profit = revenue.subtract(cogs);
+      return {
+        revenue,
+        cogs,
+        profit,
+        margin: revenue.isZero() ? 0 : profit.ratio(revenue),
+      };
+    };
+
+    const baseline = totalOf("baseline");
+    const scenario = totalOf("scenario");
+
+    return {
+      overrides: { ...overrides },
+      baseline,
+      scenario,
+      delta: this.diffMetrics(scenario, baseline),
+      months: rows,
+    };
   }
 
   /**
-   * Returns total gross cost of subscription (COS) across all months.
-   * @returns {MajikMoney} - Gross COS.
+   * Sweeps one scenario variable over a range of values, e.g. for tornado charts.
+   * @param {ScenarioVariable} variable - Override to vary.
+   * @param {number[]} values - Values to evaluate.
+   * @param {ScenarioOverrides} [base={}] - Other overrides held constant.
+   * @returns {SensitivityPoint[]} - Gross revenue, profit and margin for each value.
    */
-  get grossCost(): MajikMoney {
-    this.recomputeFinance();
-    return this.metadata.finance.cos.gross.value;
+  runSensitivity(
+    variable: ScenarioVariable,
+    values: number[],
+    base: ScenarioOverrides = {}
+  ): SensitivityPoint[] {
+    if (values.length === 0)
+      throw new Error("Sensitivity requires at least one value");
+
+    return values.map((value) => {
+      const copy = this.withScenario({ ...base, [variable]: value });
+      const revenue = copy.grossRevenue;
+      const grossProfit = copy.grossProfit;
+      return {
+        value,
+        revenue,
+        grossProfit,
+        margin: revenue.isZero() ? 0 : grossProfit.ratio(revenue),
+      };
+    });
   }
 
   /**
-   * Returns total gross profit across all months.
-   * @returns {MajikMoney} - Gross profit.
+   * Returns `a` less `b` for each scenario metric.
+   * @private
    */
-  get grossProfit(): MajikMoney {
-    this.recomputeFinance();
-    return this.metadata.finance.profit.gross.value;
+  private diffMetrics(a: ScenarioMetrics, b: ScenarioMetrics): ScenarioMetrics {
+    return {
+      revenue: a.revenue.subtract(b.revenue),
+      cogs: a.cogs.subtract(b.cogs),
+      profit: a.profit.subtract(b.profit),
+      margin: a.margin - b.margin,
+    };
   }
 
+  /* ------------------ SUBSCRIPTION-SPECIFIC METHODS ------------------ */
+
   /**
-   * Returns net revenue (same as gross in this model).
-   * @returns {MajikMoney} - Net revenue.
+   * Applies a free trial of the given number of months to new subscribers.
+   * Shortcut for `setTrial`; the capacity plan is left untouched.
+   * @param {number} months - Number of months for the trial period.
+   * @param {number} [conversionRate=1] - Share of trial users who convert to paying (0–1).
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws {Error} - Throws if months is not a positive integer.
    */
-  get netRevenue(): MajikMoney {
-    this.recomputeFinance();
-    return this.metadata.finance.revenue.net.value;
+  applyTrial(months: number, conversionRate: number = 1): this {
+    return this.runJournaled("applyTrial", [months, conversionRate], () => {
+      if (!Number.isInteger(months) || months <= 0)
+        throw new Error("Trial months must be a positive integer");
+
+      return this.setTrial({
+        length: months,
+        lengthUnit: TrialLengthUnit.MONTHS,
+        paid: false,
+        conversionRate,
+      });
+    });
   }
 
   /**
-   * Returns net profit (same as gross in this model).
-   * @returns {MajikMoney} - Net profit.
+   * Returns the next billing date after now, following the billing cycle and anchor day.
+   * @returns {ISODateString | null} - Next billing date in ISO format (UTC), or null if there is no capacity plan or it has ended.
    */
-  get netProfit(): MajikMoney {
-    this.recomputeFinance();
-    return this.metadata.finance.profit.net.value;
+  nextBillingDate(): ISODateString | null {
+    const now = new Date().toISOString();
+    const next = this.generateInvoiceSchedule().find(
+      (inv) => inv.billingDate > now
+    );
+    return next?.billingDate ?? null;
   }
 
-  get unitCost(): MajikMoney {
-    return this.metadata.cos.reduce(
-      (acc, c) => acc.add(c.subtotal),
-      this.DEFAULT_ZERO()
+  /**
+   * Forecasts revenue for the next N months based on current rate and capacity plan.
+   * @param {number} nextNMonths - Number of future months to forecast.
+   * @param {RevenueBasis} [basis=RevenueBasis.ACCRUAL] - Monthly-equivalent (accrual) or invoiced (cash) revenue.
+   * @param {string} [currencyCode] - Currency to report in, converted month by month. Defaults to the base currency.
+   * @returns {MajikMoney} - Forecasted revenue as MajikMoney.
+   * @throws {Error} - Throws if nextNMonths is not a positive integer.
+   */
+  forecastRevenue(
+    nextNMonths: number,
+    basis: RevenueBasis = RevenueBasis.ACCRUAL,
+    currencyCode?: string
+  ): MajikMoney {
+    if (!Number.isInteger(nextNMonths) || nextNMonths <= 0)
+      throw new Error("nextNMonths must be a positive integer");
+    if (!this.metadata.capacityPlan || this.metadata.capacityPlan.length === 0)
+      return this.DEFAULT_ZERO(currencyCode);
+
+    const sortedPlan = [...this.metadata.capacityPlan].sort((a, b) =>
+      a.month.localeCompare(b.month)
     );
+    let forecast = this.DEFAULT_ZERO(currencyCode);
+
+    for (let i = 0; i < nextNMonths; i++) {
+      const monthEntry = sortedPlan[i % sortedPlan.length]; // loop over plan if nextNMonths > plan length
+      const revenue =
+        basis === RevenueBasis.CASH
+          ? this.getCashRevenue(monthEntry.month)
+          : this.getRevenue(monthEntry.month);
+      forecast = forecast.add(
+        currencyCode
+          ? this.convert(revenue, currencyCode, monthEntry.month)
+          : revenue
+      );
+    }
+
+    return forecast;
   }
 
-  get unitProfit(): MajikMoney {
-    return this.rate.amount.subtract(this.unitCost);
+  /** Monthly Recurring Revenue (MRR) for a specific month or current month if not provided.
+   * Always normalized to the monthly equivalent of the billing cycle.
+   * Covers the base rate and add-ons; usage, paid-trial and proration revenue are excluded.
+   * @param {YYYYMM} [month] - Month in YYYY-MM format. Defaults to the current month.
+   * @param {string} [currencyCode] - Currency to report in. Defaults to the base currency.
+   */
+  getMRR(month?: YYYYMM, currencyCode?: string): MajikMoney {
+    if (!month) {
+      month = dateToYYYYMM(new Date());
+    }
+    return this.getRecurringRevenue(month, currencyCode);
   }
 
-  get unitMargin(): number {
-    return this.rate.amount.isZero()
-      ? 0
-      : this.unitProfit.ratio(this.rate.amount);
+  /** Annual Recurring Revenue (ARR) based on sum of next 12 months revenue
+   *
+   * Forecasts recurring revenue (see `getRecurringRevenue`) for the next N months based on current rate and capacity plan.
+   * @param {number} months - Number of future months to forecast. Defaults to 12.
+   * @param {string} [currencyCode] - Currency to report in. Defaults to the base currency.
+   * @throws {Error} - Throws if months is not a positive integer.
+   */
+
+  getARR(months: number = 12, currencyCode?: string): MajikMoney {
+    if (!Number.isInteger(months) || months <= 0)
+      throw new Error("months must be a positive integer");
+    if (!this.metadata.capacityPlan || this.metadata.capacityPlan.length === 0)
+      return this.DEFAULT_ZERO(currencyCode);
+
+    const sortedPlan = [...this.metadata.capacityPlan].sort((a, b) =>
+      a.month.localeCompare(b.month)
+    );
+    let arr = this.DEFAULT_ZERO(currencyCode);
+    for (let i = 0; i < months; i++) {
+      const monthEntry = sortedPlan[i % sortedPlan.length]; // loop over plan if months > plan length
+      arr = arr.add(this.getRecurringRevenue(monthEntry.month, currencyCode));
+    }
+    return arr;
   }
 
-  get price(): MajikMoney {
-    return this.rate.amount.isZero() ? this.DEFAULT_ZERO() : this.rate.amount;
+  /* ------------------ EVENTS ------------------ */
+
+  /**
+   * Subscribes to a subscription event.
+   * @param {K} event - Event name, e.g. `rateChanged` or `changed`.
+   * @param {SubscriptionEventListener<K>} listener - Called with the event payload.
+   * @returns {() => void} - Unsubscribes the listener.
+   */
+  on<K extends SubscriptionEventName>(
+    event: K,
+    listener: SubscriptionEventListener<K>
+  ): () => void {
+    if (this.listeners.size === 0) {
+      this.eventSnapshot = this.takeEventSnapshot();
+    }
+    const set = this.listeners.get(event) ?? new Set();
+    set.add(listener);
+    this.listeners.set(event, set);
+    return () => this.off(event, listener);
   }
 
-  getMonthlySnapshot(month: YYYYMM) {
-    return {
-      month,
-      revenue: this.getRevenue(month),
-      cogs: this.getCOS(month),
-      profit: this.getProfit(month),
-      margin: this.getMargin(month),
-      netRevenue: this.getNetRevenue(month),
-      netIncome: this.getNetIncome(month),
-    };
+  /**
+   * Unsubscribes a listener from a subscription event.
+   * @param {K} event - Event name.
+   * @param {SubscriptionEventListener<K>} listener - Listener passed to `on`.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   */
+  off<K extends SubscriptionEventName>(
+    event: K,
+    listener: SubscriptionEventListener<K>
+  ): this {
+    const set = this.listeners.get(event);
+    set?.delete(listener);
+    if (set?.size === 0) this.listeners.delete(event);
+    return this;
   }
 
   /**
-   * Calculates Net Revenue for a given month.
-   * @param month - YYYYMM
-   * @param discounts - Total discounts for the month (optional)
-   * @param returns - Total returns for the month (optional)
-   * @param allowances - Total allowances for the month (optional)
-   * @returns {MajikMoney} Net Revenue
+   * Runs several mutations and notifies listeners once at the end.
+   * Each event fires at most once, with the value before the batch and the value after it.
+   * @param {(subscription: this) => void} fn - Mutations to apply.
+   * @returns {MajikSubscription} - Returns self for chaining.
    */
-  getNetRevenue(
-    month: YYYYMM,
-    discounts?: MajikMoney,
-    returns?: MajikMoney,
-    allowances?: MajikMoney
-  ): MajikMoney {
-    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    let net = this.getRevenue(month);
-    if (discounts) net = net.subtract(discounts);
-    if (returns) net = net.subtract(returns);
-    if (allowances) net = net.subtract(allowances);
-    return net;
+  batch(fn: (subscription: this) => void): this {
+    this.batchDepth++;
+    try {
+      fn(this);
+      if (this.batchDepth === 1 && this.listeners.has("financeRecomputed"))
+        this.recomputeFinance();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0 && (this.batchMutated || this.pendingFinance)) {
+        const mutated = this.batchMutated;
+        this.batchMutated = false;
+        this.flushEvents(mutated);
+      }
+    }
+    return this;
   }
 
   /**
-   * Calculates Net Profit for a given month.
-   * @param month - YYYYMM
-   * @param operatingExpenses - Total operating expenses (optional)
-   * @param taxes - Total taxes (optional)
-   * @param discounts - Total discounts for the month (optional)
-   * @param returns - Total returns for the month (optional)
-   * @param allowances - Total allowances for the month (optional)
-   * @returns {MajikMoney} Net Profit
+   * Compares the current state with the last notified state and emits the matching events.
+   * @param {boolean} mutated - Whether to emit `changed` after the specific events.
+   * @private
    */
-  getNetProfit(
-    month: YYYYMM,
-    operatingExpenses?: MajikMoney,
-    taxes?: MajikMoney,
-    discounts?: MajikMoney,
-    returns?: MajikMoney,
-    allowances?: MajikMoney
-  ): MajikMoney {
-    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    let netRev = this.getNetRevenue(month, discounts, returns, allowances);
-    if (operatingExpenses) netRev = netRev.subtract(operatingExpenses);
-    if (taxes) netRev = netRev.subtract(taxes);
-    return netRev;
+  private flushEvents(mutated: boolean): void {
+    const before = this.eventSnapshot ?? this.takeEventSnapshot();
+    const after = this.takeEventSnapshot();
+    this.eventSnapshot = after;
+
+    const fired: SubscriptionEventName[] = [];
+    const fire = <K extends SubscriptionEventName>(
+      event: K,
+      payload: SubscriptionEventMap[K]
+    ) => {
+      fired.push(event);
+      this.emit(event, payload);
+    };
+
+    if (before.rate !== after.rate) {
+      fire("rateChanged", {
+        before: this.fromSnapshot<SubscriptionRate>(before.rate),
+        after: this.fromSnapshot<SubscriptionRate>(after.rate),
+      });
+    }
+
+    if (before.cos !== after.cos) {
+      const prev: COSItem[] = this.fromSnapshot(before.cos);
+      const next: COSItem[] = this.fromSnapshot(after.cos);
+      const prevById = new Map(prev.map((c) => [c.id, this.toSnapshot(c)]));
+      const nextIds = new Set(next.map((c) => c.id));
+      const change = (items: COSItem[]): COSChange => ({
+        before: prev,
+        after: next,
+        items,
+      });
+
+      const added = next.filter((c) => !prevById.has(c.id));
+      const updated = next.filter(
+        (c) => prevById.has(c.id) && prevById.get(c.id) !== this.toSnapshot(c)
+      );
+      const removed = prev.filter((c) => !nextIds.has(c.id));
+      if (added.length > 0) fire("cosAdded", change(added));
+      if (updated.length > 0) fire("cosUpdated", change(updated));
+      if (removed.length > 0) fire("cosRemoved", change(removed));
+    }
+
+    if (before.capacity !== after.capacity) {
+      fire("capacityUpdated", {
+        before: this.fromSnapshot<MonthlyCapacity[]>(before.capacity),
+        after: this.fromSnapshot<MonthlyCapacity[]>(after.capacity),
+      });
+    }
+
+    if (before.status !== after.status) {
+      fire("statusChanged", {
+        before: before.status as SubscriptionStatus,
+        after: after.status as SubscriptionStatus,
+      });
+    }
+
+    if (this.pendingFinance) {
+      const previous = this.pendingFinance;
+      this.pendingFinance = undefined;
+      fire("financeRecomputed", {
+        before: previous,
+        after: this.metadata.finance,
+      });
+    }
+
+    if (mutated) this.emit("changed", { events: fired });
+  }
+
+  /**
+   * Calls every listener of an event.
+   * @private
+   */
+  private emit<K extends SubscriptionEventName>(
+    event: K,
+    payload: SubscriptionEventMap[K]
+  ): void {
+    [...(this.listeners.get(event) ?? [])].forEach((listener) =>
+      (listener as SubscriptionEventListener<K>)(payload)
+    );
   }
 
   /**
-   * Alias for getNetProfit, same as Net Income
+   * Captures the watched state as serialized strings, used for change detection and payloads.
+   * @private
    */
-  getNetIncome(
-    month: YYYYMM,
-    operatingExpenses?: MajikMoney,
-    taxes?: MajikMoney,
-    discounts?: MajikMoney,
-    returns?: MajikMoney,
-    allowances?: MajikMoney
-  ): MajikMoney {
-    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    return this.getNetProfit(
-      month,
-      operatingExpenses,
-      taxes,
-      discounts,
-      returns,
-      allowances
-    );
+  private takeEventSnapshot(): Record<
+    "rate" | "cos" | "capacity" | "status",
+    string
+  > {
+    return {
+      rate: this.toSnapshot(this.metadata.rate),
+      cos: this.toSnapshot(this.metadata.cos),
+      capacity: this.toSnapshot(this.metadata.capacityPlan ?? []),
+      status: this.settings.status,
+    };
   }
 
-  /* ------------------ MONTHLY FINANCE ------------------ */
+  /** Serializes a value, including money, to a comparable string. */
+  private toSnapshot(value: unknown): string {
+    return JSON.stringify(serializeMoney({ value }));
+  }
+
+  /** Restores a value serialized by `toSnapshot`. */
+  private fromSnapshot<T>(snapshot: string): T {
+    return deserializeMoney(JSON.parse(snapshot)).value;
+  }
+
+  /* ------------------ CHANGE JOURNAL ------------------ */
 
   /**
-   * Returns revenue for a specific month.
-   * @param {YYYYMM} month - Month in YYYY-MM format.
-   * @returns {MajikMoney} - Monthly revenue.
+   * Returns the recorded journal entries, oldest first, including undone ones.
    */
-  getRevenue(month: YYYYMM): MajikMoney {
-    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
-    if (!plan) return this.DEFAULT_ZERO();
-    return this.rate.amount.multiply(plan.capacity + (plan.adjustment ?? 0));
+  get journal(): readonly JournalEntry[] {
+    return this.metadata.journal?.entries ?? [];
   }
 
   /**
-   * Returns all COS items.
-   * @returns {readonly COSItem[]} - Array of COS items.
+   * Returns true if there is an entry to undo.
    */
-  get cos(): readonly COSItem[] {
-    return this.metadata.cos;
+  get canUndo(): boolean {
+    return (this.metadata.journal?.cursor ?? 0) > 0;
   }
 
   /**
-   * Returns COS for a specific month.
-   * @param {YYYYMM} month - Month in YYYY-MM format.
-   * @returns {MajikMoney} - Monthly COS.
+   * Returns true if there is an undone entry to redo.
    */
-  getCOS(month: YYYYMM): MajikMoney {
-    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    const plan = this.metadata.capacityPlan?.find((s) => s.month === month);
-    if (!plan) return this.DEFAULT_ZERO();
-    const perUnitCOS = this.metadata.cos.reduce(
-      (acc, c) => acc.add(c.subtotal),
-      this.DEFAULT_ZERO()
-    );
-    return perUnitCOS.multiply(plan.capacity + (plan.adjustment ?? 0));
+  get canRedo(): boolean {
+    const journal = this.metadata.journal;
+    return !!journal && journal.cursor < journal.entries.length;
   }
 
   /**
-   * Alias for Get COS. Retrieves COS for a given month.
-   * @param month - YYYYMM month.
-   * @returns {MajikMoney} COS for the month.
+   * Starts recording mutating calls in a change journal stored in the metadata.
+   * An existing journal is kept.
+   * @param {string} [actor] - Who is making the changes. See `setJournalActor`.
+   * @param {number} [limit] - Maximum number of entries kept; the oldest are dropped. Keeps the current limit if undefined.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if the limit is not a positive integer.
    */
-  getCost(month: YYYYMM): MajikMoney {
-    return this.getCOS(month);
+  enableJournal(actor?: string, limit?: number): this {
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1))
+      throw new Error("Journal limit must be a positive integer");
+
+    this.metadata.journal ??= { entries: [], cursor: 0 };
+    if (limit !== undefined) {
+      this.metadata.journal.limit = limit;
+      this.trimJournal(this.metadata.journal);
+    }
+    if (actor !== undefined) this.journalActor = actor;
+    this.updateTimestamp();
+    return this;
   }
 
   /**
-   * Returns profit for a specific month.
-   * @param {YYYYMM} month - Month in YYYY-MM format.
-   * @returns {MajikMoney} - Monthly profit.
+   * Stops recording and removes the journal with all its entries.
+   * @returns {MajikSubscription} - Returns self for chaining.
    */
-  getProfit(month: YYYYMM): MajikMoney {
-    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    return this.getRevenue(month).subtract(this.getCOS(month));
+  disableJournal(): this {
+    delete this.metadata.journal;
+    this.updateTimestamp();
+    return this;
   }
 
   /**
-   * Returns profit margin (as a decimal) for a specific month.
-   * @param {YYYYMM} month - Month in YYYY-MM format.
-   * @returns {number} - Profit margin (0–1).
+   * Sets who is making the changes recorded from now on. The actor is not serialized.
+   * @param {string} [actor] - User name or ID. Undefined clears it.
+   * @returns {MajikSubscription} - Returns self for chaining.
    */
-  getMargin(month: YYYYMM): number {
-    if (!isValidYYYYMM(month)) throw new Error("Invalid month");
-    const revenue = this.getRevenue(month);
-    return revenue.isZero()
-      ? 0
-      : this.getProfit(month)
-          .divideDecimal(revenue.toMajorDecimal())
-          .toNumber();
+  setJournalActor(actor?: string): this {
+    this.journalActor = actor;
+    return this;
   }
 
-  /* ------------------ SUBSCRIPTION-SPECIFIC METHODS ------------------ */
+  /**
+   * Removes all journal entries but keeps recording with the same limit.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   */
+  clearJournal(): this {
+    if (!this.metadata.journal) return this;
+    this.metadata.journal.entries = [];
+    this.metadata.journal.cursor = 0;
+    this.updateTimestamp();
+    return this;
+  }
 
   /**
-   * Applies a trial period to the subscription by reducing the capacity or revenue for the given number of months.
-   * @param {number} months - Number of months for the trial period.
+   * Reverts the last applied journal entry.
    * @returns {MajikSubscription} - Returns self for chaining.
-   * @throws {Error} - Throws if months is not a positive integer.
+   * @throws Will throw an error if there is nothing to undo.
    */
-  applyTrial(months: number): this {
-    if (!Number.isInteger(months) || months <= 0)
-      throw new Error("Trial months must be a positive integer");
-    if (!this.metadata.capacityPlan) return this;
+  undo(): this {
+    const journal = this.metadata.journal;
+    if (!journal || journal.cursor === 0) throw new Error("Nothing to undo");
 
-    // Reduce the capacity for the first N months to 0
-    const sortedPlan = [...this.metadata.capacityPlan].sort((a, b) =>
-      a.month.localeCompare(b.month)
-    );
-    for (let i = 0; i < months && i < sortedPlan.length; i++) {
-      sortedPlan[i].adjustment =
-        (sortedPlan[i].adjustment ?? 0) - sortedPlan[i].capacity;
-    }
-    this.metadata.capacityPlan = sortedPlan;
-    this.updateTimestamp();
-    this.markFinanceDirty();
+    journal.cursor--;
+    this.applyJournalChanges(journal.entries[journal.cursor].changes, "before");
     return this;
   }
 
   /**
-   * Computes the next billing date for the subscription.
-   * Assumes subscription billing is monthly and starts at the first month in the capacity plan.
-   * @returns {ISODateString | null} - Next billing date in ISO format, or null if no capacity plan exists.
+   * Re-applies the last undone journal entry.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if there is nothing to redo.
    */
-  nextBillingDate(): ISODateString | null {
-    if (!this.metadata.capacityPlan || this.metadata.capacityPlan.length === 0)
-      return null;
+  redo(): this {
+    const journal = this.metadata.journal;
+    if (!journal || journal.cursor >= journal.entries.length)
+      throw new Error("Nothing to redo");
 
-    // Find the next month after current date
-    const now = new Date();
-    const sortedMonths = [...this.metadata.capacityPlan].sort((a, b) =>
-      a.month.localeCompare(b.month)
+    this.applyJournalChanges(journal.entries[journal.cursor].changes, "after");
+    journal.cursor++;
+    return this;
+  }
+
+  /**
+   * Applies the recorded changes of the given entries to this subscription, in order.
+   * Each replayed entry is journaled with its original method, arguments and actor.
+   * @param {readonly JournalEntry[]} entries - Entries to replay, e.g. another copy's `journal`.
+   * @returns {MajikSubscription} - Returns self for chaining.
+   * @throws Will throw an error if a change targets a field or item that does not exist here.
+   */
+  replay(entries: readonly JournalEntry[]): this {
+    const actor = this.journalActor;
+    try {
+      for (const entry of entries) {
+        this.journalActor = entry.actor ?? actor;
+        this.runJournaled(entry.method, entry.args, () =>
+          this.applyJournalChanges(entry.changes, "after")
+        );
+      }
+    } finally {
+      this.journalActor = actor;
+    }
+    return this;
+  }
+
+  /**
+   * Runs a journaled method and records the paths it changed.
+   * Calls made while another journaled call is running are not recorded separately.
+   * @private
+   */
+  private runJournaled<T>(method: string, args: unknown[], call: () => T): T {
+    const journal = this.metadata.journal;
+    if (!journal || this.journalDepth > 0) return call();
+
+    // Omitted optional arguments are not recorded as null
+    let count = args.length;
+    while (count > 0 && args[count - 1] === undefined) count--;
+    const recordedArgs = this.fromSnapshot<unknown[]>(
+      this.toSnapshot(args.slice(0, count))
     );
-    for (const monthEntry of sortedMonths) {
-      const [year, month] = monthEntry.month.split("-").map(Number);
-      const firstOfMonth = new Date(year, month - 1, 1);
-      if (firstOfMonth > now) return firstOfMonth.toISOString();
+    const before = this.getComparableState();
+    this.journalDepth++;
+    let result: T;
+    try {
+      result = call();
+    } finally {
+      this.journalDepth--;
     }
 
-    // If all months are in the past, return first month of next year
-    const lastMonth = sortedMonths[sortedMonths.length - 1];
-    const [lastYear, lastMonthNum] = lastMonth.month.split("-").map(Number);
-    const nextMonthDate = new Date(lastYear, lastMonthNum, 1);
-    return nextMonthDate.toISOString();
+    const changes = this.getJournalChanges(before, this.getComparableState());
+    if (changes.length === 0) return result;
+
+    journal.entries.splice(journal.cursor);
+    journal.entries.push({
+      id: autogenerateID("mjksubjrnl"),
+      method,
+      args: recordedArgs,
+      actor: this.journalActor,
+      timestamp: new Date().toISOString(),
+      changes,
+    });
+    journal.cursor = journal.entries.length;
+    this.trimJournal(journal);
+    return result;
   }
 
   /**
-   * Forecasts revenue for the next N months based on current rate and capacity plan.
-   * @param {number} nextNMonths - Number of future months to forecast.
-   * @returns {MajikMoney} - Forecasted revenue as MajikMoney.
-   * @throws {Error} - Throws if nextNMonths is not a positive integer.
+   * Lists the paths changed between two states. Adding or removing an item of a keyed array
+   * is recorded as a change of the whole array, so undo restores the item order.
+   * @private
    */
-  forecastRevenue(nextNMonths: number): MajikMoney {
-    if (!Number.isInteger(nextNMonths) || nextNMonths <= 0)
-      throw new Error("nextNMonths must be a positive integer");
-    if (!this.metadata.capacityPlan || this.metadata.capacityPlan.length === 0)
-      return this.DEFAULT_ZERO();
-
-    const sortedPlan = [...this.metadata.capacityPlan].sort((a, b) =>
-      a.month.localeCompare(b.month)
+  private getJournalChanges(
+    before: ComparableSubscriptionState,
+    after: ComparableSubscriptionState
+  ): JournalChange[] {
+    const entries = diffValues(before, after);
+    const arrays = entries
+      .filter(
+        (e) =>
+          e.kind !== "changed" &&
+          typeof e.segments[e.segments.length - 1] === "object"
+      )
+      .map((e) => e.segments.slice(0, -1))
+      .sort((a, b) => a.length - b.length);
+
+    const changes = entries.filter(
+      (e) => !arrays.some((segments) => isDiffPathPrefix(segments, e.segments))
     );
-    let forecast = this.DEFAULT_ZERO();
+    for (const segments of arrays) {
+      if (changes.some((c) => isDiffPathPrefix(c.segments, segments))) continue;
+      changes.push({
+        segments,
+        kind: "changed",
+        before: getDiffPathValue(before, segments),
+        after: getDiffPathValue(after, segments),
+      });
+    }
 
-    for (let i = 0; i < nextNMonths; i++) {
-      const monthEntry = sortedPlan[i % sortedPlan.length]; // loop over plan if nextNMonths > plan length
-      const capacity = monthEntry.capacity + (monthEntry.adjustment ?? 0);
-      forecast = forecast.add(this.rate.amount.multiply(capacity));
+    return changes.map(({ segments, before, after }) => ({
+      path: formatDiffPath(segments),
+      segments,
+      before,
+      after,
+    }));
+  }
+
+  /**
+   * Sets each changed path to its value before or after the journaled call.
+   * @private
+   */
+  private applyJournalChanges(
+    changes: JournalChange[],
+    side: "before" | "after"
+  ): this {
+    for (const change of changes) {
+      const [root, field] = change.segments;
+      const isJournaled =
+        root === "metadata"
+          ? field !== "finance" && field !== "journal"
+          : root === "name" || root === "slug" || root === "settings";
+      const value =
+        change[side] === undefined
+          ? undefined
+          : this.fromSnapshot(this.toSnapshot(change[side]));
+
+      if (
+        !isJournaled ||
+        !applyDiffEntry(this, {
+          segments: change.segments,
+          kind: "changed",
+          after: value,
+        })
+      )
+        throw new Error(`Cannot apply journal change: ${change.path}`);
     }
 
-    return forecast;
+    this.type = this.metadata.type;
+    this.category = this.metadata.category;
+    this.rate = this.metadata.rate;
+    this.updateTimestamp();
+    this.markFinanceDirty();
+    return this;
   }
 
-  /** Monthly Recurring Revenue (MRR) for a specific month or current month if not provided */
-  getMRR(month?: YYYYMM): MajikMoney {
-    if (!month) {
-      month = dateToYYYYMM(new Date());
+  /**
+   * Drops undone entries, then the oldest ones, beyond the journal limit.
+   * @private
+   */
+  private trimJournal(journal: SubscriptionJournal): void {
+    if (journal.limit === undefined) return;
+
+    journal.entries.splice(Math.max(journal.cursor, journal.limit));
+    const excess = journal.entries.length - journal.limit;
+    if (excess > 0) {
+      journal.entries.splice(0, excess);
+      journal.cursor -= excess;
     }
-    return this.getRevenue(month);
   }
 
-  /** Annual Recurring Revenue (ARR) based on sum of next 12 months revenue
-   *
-   * Forecasts revenue for the next N months based on current rate and capacity plan.
-   * @param {number} months - Number of future months to forecast. Defaults to 12.
+  /**
+   * Returns a copy of the fields tracked by the change journal, `diff` and `merge`.
+   * @private
+   */
+  private getComparableState(): ComparableSubscriptionState {
+    const state = this.fromSnapshot<ComparableSubscriptionState>(
+      this.toSnapshot({
+        name: this.name,
+        slug: this.slug,
+        settings: this.settings,
+        metadata: this.metadata,
+      })
+    );
+    delete state.metadata.finance;
+    delete state.metadata.journal;
+    return state;
+  }
+
+  /* ------------------ DIFF & MERGE ------------------ */
+
+  /**
+   * Compares this subscription (before) with another version (after) field by field.
+   * Items with an `id` (COS, discounts, add-ons, ...) are matched by id; capacity and actuals by month.
+   * IDs, timestamps, the finance cache and the journal are not compared.
+   * @param {MajikSubscription} other - The later version.
+   * @returns {SubscriptionDiff} - Field changes and the impact on aggregate finance.
+   */
+  diff(other: MajikSubscription): SubscriptionDiff {
+    const changes = diffValues(
+      this.getComparableState(),
+      other.getComparableState()
+    ).map((entry) => ({
+      path: formatDiffPath(entry.segments),
+      kind: entry.kind,
+      before: entry.before,
+      after: entry.after,
+    }));
+
+    const before = this.getFinance();
+    const after = other.getFinance(this.baseCurrency);
+    const delta = (a: MajikMoney, b: MajikMoney): FinanceDelta => ({
+      before: a,
+      after: b,
+      delta: b.subtract(a),
+    });
+
+    return {
+      changes,
+      finance: {
+        revenue: delta(before.revenue.gross.value, after.revenue.gross.value),
+        cos: delta(before.cos.gross.value, after.cos.gross.value),
+        grossProfit: delta(before.profit.gross.value, after.profit.gross.value),
+        netProfit: delta(before.profit.net.value, after.profit.net.value),
+      },
+    };
+  }
+
+  /**
+   * Three-way merge of two versions edited from a common base.
+   * A change made on one side only is applied; a path changed differently on both sides
+   * (or inside an item the other side removed) is reported as a conflict.
+   * COS subtotals are not merged but recomputed from the merged unit cost and quantity,
+   * and the merged copy is validated.
+   * @param {MajikSubscription} base - Common ancestor.
+   * @param {MajikSubscription} ours - Our version. The merged copy keeps its ID.
+   * @param {MajikSubscription} theirs - Their version.
+   * @param {"ours" | "theirs"} [prefer="ours"] - Which side wins a conflict.
+   * @returns {{ merged: MajikSubscription; conflicts: MergeConflict[]; validation: ValidationReport }} - Merged copy, conflicts and the validation report of the merged copy.
    */
+  static merge(
+    base: MajikSubscription,
+    ours: MajikSubscription,
+    theirs: MajikSubscription,
+    prefer: "ours" | "theirs" = "ours"
+  ): {
+    merged: MajikSubscription;
+    conflicts: MergeConflict[];
+    validation: ValidationReport;
+  } {
+    // Derived fields are recomputed after merging instead
+    const isMerged = (entry: DiffEntry) =>
+      entry.segments[entry.segments.length - 1] !== "subtotal";
+
+    const baseState = base.getComparableState();
+    const oursState = ours.getComparableState();
+    const ourChanges = diffValues(baseState, oursState).filter(isMerged);
+    const theirsState = theirs.getComparableState();
+    const mergedState = ours.getComparableState();
+    const conflicts: MergeConflict[] = [];
+
+    for (const change of diffValues(baseState, theirsState).filter(isMerged)) {
+      const overlapping = ourChanges.filter(
+        (c) =>
+          isDiffPathPrefix(c.segments, change.segments) ||
+          isDiffPathPrefix(change.segments, c.segments)
+      );
+      const agreed = overlapping.every(
+        (c) =>
+          c.segments.length === change.segments.length &&
+          isSameValue(c.after, change.after)
+      );
+
+      if (overlapping.length > 0 && agreed) continue;
+      if (overlapping.length > 0) {
+        conflicts.push({
+          path: formatDiffPath(change.segments),
+          base: change.before,
+          ours: getDiffPathValue(oursState, change.segments),
+          theirs: change.after,
+        });
+        if (prefer === "ours") continue;
+
+        // Take their value at the outermost conflicting path, e.g. a whole COS item we removed
+        const segments = overlapping.reduce(
+          (shortest, c) =>
+            c.segments.length < shortest.length ? c.segments : shortest,
+          change.segments
+        );
+        applyDiffEntry(mergedState, {
+          ...change,
+          segments,
+          after: getDiffPathValue(theirsState, segments),
+        });
+        continue;
+      }
+      applyDiffEntry(mergedState, change);
+    }
+
+    const merged = MajikSubscription.parseFromJSON(ours.toJSON());
+    merged.name = mergedState.name;
+    merged.slug = mergedState.slug;
+    merged.settings = mergedState.settings;
+    merged.metadata = {
+      ...(mergedState.metadata as SubscriptionMetadata),
+      finance: merged.metadata.finance,
+      ...(merged.metadata.journal && { journal: merged.metadata.journal }),
+    };
+    merged.type = merged.metadata.type;
+    merged.category = merged.metadata.category;
+    merged.rate = merged.metadata.rate;
+
+    const recompute = (c: COSItem) => {
+      c.subtotal = c.unitCost.multiply(c.quantity);
+    };
+    merged.metadata.cos.forEach(recompute);
+    merged.metadata.addOns?.forEach((a) => a.cos.forEach(recompute));
 
-  getARR(months: number = 12): MajikMoney {
-    return this.forecastRevenue(months);
+    merged.updateTimestamp();
+    merged.markFinanceDirty();
+    return { merged, conflicts, validation: merged.validate() };
   }
 
   /* ------------------ UTILITIES ------------------ */
 
   /**
-   * Validates the subscription instance.
-   * @param {boolean} [throwError=false] - Whether to throw an error on first invalid property.
-   * @returns {boolean} - True if valid, false if invalid and throwError is false.
-   * @throws {Error} - Throws error if throwError is true and a required field is missing/invalid.
+   * Validates metadata, rate, COS, capacity plan and settings.
+   * Structural problems are reported first, followed by consistency checks.
+   * @returns {ValidationReport} - Every issue found, with severity, code and path.
    */
-  validateSelf(throwError: boolean = false): boolean {
-    const requiredFields = [
-      { field: this.id, name: "ID" },
-      { field: this.timestamp, name: "Timestamp" },
-      { field: this.name, name: "Subscription Name" },
-      { field: this.metadata.description.text, name: "Description" },
-      { field: this.metadata.rate.amount.toMajor(), name: "Rate Amount" },
-      { field: this.metadata.rate.unit, name: "Rate Unit" },
-    ];
-
-    for (const { field, name } of requiredFields) {
-      if (field === null || field === undefined || field === "") {
-        if (throwError)
-          throw new Error(
-            `Validation failed: Missing or invalid property - ${name}`
+  validate(): ValidationReport {
+    const issues: ValidationIssue[] = validateSubscriptionJSON(this).map(
+      (i) => ({ severity: "error", code: "INVALID_STRUCTURE", ...i })
+    );
+    const error = (code: string, path: string, message: string) =>
+      issues.push({ severity: "error", code, path, message });
+    const warning = (code: string, path: string, message: string) =>
+      issues.push({ severity: "warning", code, path, message });
+
+    const currency = this.rate?.amount?.currency?.code;
+    const checkCurrency = (money: MajikMoney | undefined, path: string) => {
+      if (money instanceof MajikMoney && money.currency.code !== currency)
+        error(
+          "CURRENCY_MISMATCH",
+          path,
+          `Currency ${money.currency.code} does not match rate currency ${currency}`
+        );
+    };
+    // COS may be in any currency the FX rates can convert
+    const checkConvertible = (money: MajikMoney | undefined, path: string) => {
+      if (money instanceof MajikMoney && !this.canConvert(money.currency.code))
+        error(
+          "NO_FX_RATE",
+          path,
+          `No FX rate to convert ${money.currency.code} to ${currency}`
+        );
+    };
+
+    // Metadata
+    if (!this.metadata.description?.text?.trim())
+      error(
+        "MISSING_DESCRIPTION",
+        "metadata.description.text",
+        "Description is required"
+      );
+
+    // Rate
+    if (this.rate?.amount instanceof MajikMoney) {
+      const amount = this.rate.amount.toMajor();
+      if (amount < 0)
+        error("NEGATIVE_RATE", "metadata.rate.amount", "Rate is negative");
+      else if (amount === 0)
+        warning("ZERO_RATE", "metadata.rate.amount", "Rate is zero");
+    }
+
+    // COS
+    const cosIds = new Set<string>();
+    (Array.isArray(this.metadata.cos) ? this.metadata.cos : []).forEach(
+      (item, i) => {
+        const path = `metadata.cos[${i}]`;
+        if (cosIds.has(item.id))
+          error("DUPLICATE_ID", `${path}.id`, `Duplicate COS id: ${item.id}`);
+        cosIds.add(item.id);
+
+        if (item.quantity < 0)
+          error(
+            "NEGATIVE_QUANTITY",
+            `${path}.quantity`,
+            "Quantity is negative"
+          );
+        if (!(item.unitCost instanceof MajikMoney)) return;
+        if (item.unitCost.toMajor() < 0)
+          error("NEGATIVE_COST", `${path}.unitCost`, "Unit cost is negative");
+        checkConvertible(item.unitCost, `${path}.unitCost`);
+
+        if (
+          item.subtotal instanceof MajikMoney &&
+          Number.isFinite(item.quantity) &&
+          (item.subtotal.currency.code !== item.unitCost.currency.code ||
+            !item.subtotal
+              .subtract(item.unitCost.multiply(item.quantity))
+              .isZero())
+        )
+          error(
+            "COS_SUBTOTAL_MISMATCH",
+            `${path}.subtotal`,
+            "Subtotal does not equal unit cost × quantity"
           );
-        return false;
       }
+    );
+
+    // Capacity plan
+    const plan = Array.isArray(this.metadata.capacityPlan)
+      ? this.metadata.capacityPlan
+      : [];
+    const months = new Set<string>();
+    plan.forEach((entry, i) => {
+      const path = `metadata.capacityPlan[${i}]`;
+      if (months.has(entry.month))
+        error(
+          "DUPLICATE_MONTH",
+          `${path}.month`,
+          `Duplicate capacity month: ${entry.month}`
+        );
+      months.add(entry.month);
+
+      if (entry.capacity + (entry.adjustment ?? 0) < 0)
+        error(
+          "NEGATIVE_CAPACITY",
+          `${path}.adjustment`,
+          "Capacity after adjustment is negative"
+        );
+      if (
+        entry.demand !== undefined &&
+        entry.demand > effectiveSubscribers(entry)
+      )
+        warning(
+          "OVER_CAPACITY",
+          `${path}.demand`,
+          `Demand exceeds capacity in ${entry.month}`
+        );
+    });
+
+    const sorted = [...months].filter(isValidYYYYMM).sort();
+    for (let i = 1; i < sorted.length; i++) {
+      if (monthsInPeriod(sorted[i - 1], sorted[i]) > 2)
+        warning(
+          "CAPACITY_GAP",
+          "metadata.capacityPlan",
+          `No capacity between ${sorted[i - 1]} and ${sorted[i]}`
+        );
+    }
+
+    // Other money fields
+    this.metadata.discounts?.forEach((d, i) => {
+      checkCurrency(d.amount, `metadata.discounts[${i}].amount`);
+      if (!(d.subscriberShare >= 0 && d.subscriberShare <= 1))
+        error(
+          "INVALID_SHARE",
+          `metadata.discounts[${i}].subscriberShare`,
+          "Subscriber share must be between 0 and 1"
+        );
+    });
+    this.metadata.meteredComponents?.forEach((c, i) =>
+      checkCurrency(c.unitPrice, `metadata.meteredComponents[${i}].unitPrice`)
+    );
+    this.metadata.regionalPrices?.forEach((r, i) =>
+      checkConvertible(r.amount, `metadata.regionalPrices[${i}].amount`)
+    );
+    this.metadata.addOns?.forEach((a, i) => {
+      checkCurrency(a.rate?.amount, `metadata.addOns[${i}].rate.amount`);
+      a.cos?.forEach((c, j) =>
+        checkConvertible(c.unitCost, `metadata.addOns[${i}].cos[${j}].unitCost`)
+      );
+    });
+    checkCurrency(
+      this.metadata.acquisition?.perSubscriber,
+      "metadata.acquisition.perSubscriber"
+    );
+
+    // Settings
+    const system = this.settings?.system;
+    if (system?.restrictedUntil !== undefined) {
+      if (Number.isNaN(Date.parse(system.restrictedUntil)))
+        error(
+          "INVALID_DATE",
+          "settings.system.restrictedUntil",
+          `Invalid date: ${system.restrictedUntil}`
+        );
+      else if (!system.isRestricted)
+        warning(
+          "UNUSED_RESTRICTION",
+          "settings.system.restrictedUntil",
+          "Restriction date is set but the subscription is not restricted"
+        );
     }
 
-    return true;
+    const errors = issues.filter((i) => i.severity === "error").length;
+    return {
+      valid: errors === 0,
+      errors,
+      warnings: issues.length - errors,
+      issues,
+    };
+  }
+
+  /**
+   * Validates the subscription instance. Only errors fail validation; warnings are ignored.
+   * @param {boolean} [throwError=false] - Whether to throw an error on the first error.
+   * @returns {boolean} - True if valid, false if invalid and throwError is false.
+   * @throws {Error} - Throws error if throwError is true and validation finds an error.
+   */
+  validateSelf(throwError: boolean = false): boolean {
+    const first = this.validate().issues.find((i) => i.severity === "error");
+    if (!first) return true;
+    if (throwError)
+      throw new Error(`Validation failed: ${first.path} - ${first.message}`);
+    return false;
   }
 
   /**
@@ -1268,6 +5298,7 @@ export class MajikSubscription {
     const preJSON = {
       __type: "MajikSubscription",
       __object: "json",
+      schemaVersion: SUBSCRIPTION_SCHEMA_VERSION,
       id: this.id,
       slug: this.slug,
       name: this.name,
@@ -1283,36 +5314,79 @@ export class MajikSubscription {
     return serializeMoney(preJSON);
   }
 
+  /**
+   * Migrates a plain object or JSON string to the current schema version and
+   * checks its structure, without creating an instance.
+   * @param {string | object} json - JSON string or object.
+   * @returns {SchemaIssue[]} - Every structural issue found, with its path. Empty if valid.
+   */
+  static validateJSON(json: string | object): SchemaIssue[] {
+    return MajikSubscription.loadJSON(json).issues;
+  }
+
   /**
    * Parses a plain object or JSON string into a MajikSubscription instance.
+   * Older documents are migrated to the current schema version first.
    * @param {string | object} json - JSON string or object.
    * @returns {MajikSubscription} - Parsed subscription instance.
-   * @throws {Error} - Throws if required properties are missing.
+   * @throws {Error} - Throws listing every structural issue if the document is invalid.
    */
   static parseFromJSON(json: string | object): MajikSubscription {
-    const rawParse =
-      typeof json === "string" ? JSON.parse(json) : structuredClone(json);
-    const parsedData = deserializeMoney(rawParse);
-
-    if (!parsedData.id) throw new Error("Missing required property: 'id'");
-    if (!parsedData.timestamp)
-      throw new Error("Missing required property: 'timestamp'");
-    if (!parsedData.metadata)
-      throw new Error("Missing required property: 'metadata'");
-    if (!parsedData.settings)
-      throw new Error("Missing required property: 'settings'");
+    const { data: parsedData, issues } = MajikSubscription.loadJSON(json);
+    if (!parsedData || issues.length > 0) {
+      throw new Error(
+        `Invalid subscription JSON:\n${issues
+          .map((i) => `- ${i.path}: ${i.message}`)
+          .join("\n")}`
+      );
+    }
 
+    const { id, slug, name, metadata, settings, timestamp, last_update } =
+      parsedData as Pick<
+        MajikSubscription,
+        | "id"
+        | "slug"
+        | "name"
+        | "metadata"
+        | "settings"
+        | "timestamp"
+        | "last_update"
+      >;
     return new MajikSubscription(
-      parsedData.id,
-      parsedData.slug,
-      parsedData.name,
-      parsedData.metadata,
-      parsedData.settings,
-      parsedData.timestamp,
-      parsedData.last_update
+      id,
+      slug,
+      name,
+      metadata,
+      settings,
+      timestamp,
+      last_update
     );
   }
 
+  /**
+   * Parses, migrates and checks a serialized subscription.
+   * @private
+   */
+  private static loadJSON(json: string | object): {
+    data?: Record<string, unknown>;
+    issues: SchemaIssue[];
+  } {
+    const rawParse: unknown =
+      typeof json === "string" ? JSON.parse(json) : structuredClone(json);
+    if (!isRecord(rawParse))
+      return { issues: [{ path: "", message: "Must be an object" }] };
+
+    let data: Record<string, unknown>;
+    try {
+      data = migrateSubscriptionJSON(deserializeMoney(rawParse));
+    } catch (error) {
+      return {
+        issues: [{ path: "schemaVersion", message: (error as Error).message }],
+      };
+    }
+    return { data, issues: validateSubscriptionJSON(data) };
+  }
+
   /**
    * Updates the last_update timestamp to current time.
    * Should be called whenever a property is modified.
@@ -1320,6 +5394,10 @@ export class MajikSubscription {
    */
   private updateTimestamp(): void {
     this.last_update = new Date().toISOString();
+
+    if (this.listeners.size === 0) return;
+    if (this.batchDepth > 0) this.batchMutated = true;
+    else this.flushEvents(true);
   }
 
   /**
@@ -1333,6 +5411,36 @@ export class MajikSubscription {
       throw new Error("Currency mismatch with subscription rate");
     }
   }
+
+  /**
+   * Returns true if amounts in the currency can be converted to the base currency
+   * with the configured FX rates (or are already in it).
+   * @param {string} currencyCode - Currency to check.
+   * @private
+   */
+  private canConvert(currencyCode: string): boolean {
+    if (currencyCode === this.baseCurrency) return true;
+    try {
+      this.fx.getRate(currencyCode, this.baseCurrency);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Ensures the given MajikMoney object can be converted to the base currency.
+   * @param {MajikMoney} money - Money object to validate.
+   * @private
+   * @throws {Error} - Throws if it is in another currency with no FX rate configured.
+   */
+  private assertConvertible(money: MajikMoney): void {
+    if (!this.canConvert(money.currency.code)) {
+      throw new Error(
+        `No FX rate for ${money.currency.code}; set FX rates before using ${money.currency.code} amounts`
+      );
+    }
+  }
 }
 
 export function isMajikSubscriptionClass(item: MajikSubscription): boolean {
@@ -1,10 +1,17 @@
 import { MajikMoney } from "@thezelijah/majik-money";
 import {
   BillingCycle,
+  CapacityCurve,
+  COSKind,
+  DiscountType,
+  InvoiceLineKind,
+  PricingModel,
+  ProrationPolicy,
   RateUnit,
   SubscriptionStatus,
   SubscriptionType,
   SubscriptionVisibility,
+  TrialLengthUnit,
 } from "./enums";
 
 
@@ -27,6 +34,109 @@ export interface COSItem {
   quantity: number; // number of subscribers/accounts
   subtotal: MajikMoney;
   unit?: string; // e.g., "per user", "per account"
+  kind?: COSKind; // defaults to VARIABLE
+  stepSize?: number; // subscribers per step, for STEP items
+  month?: YYYYMM; // month incurred, for ONE_OFF items
+  startMonth?: YYYYMM; // first month the item applies (inclusive)
+  endMonth?: YYYYMM; // last month the item applies (inclusive)
+}
+
+/**
+ * Optional cost behaviour of a COS item, used by `addCOS`.
+ */
+export type COSSchedule = Pick<
+  COSItem,
+  "kind" | "stepSize" | "month" | "startMonth" | "endMonth"
+>;
+
+/**
+ * A coupon or discount applied to part of the subscriber base for a period.
+ */
+export interface SubscriptionDiscount {
+  id: string;
+  name: string;
+  type: DiscountType;
+  percentage?: number; // for PERCENTAGE, e.g. 0.2 = 20% off
+  amount?: MajikMoney; // for FIXED_AMOUNT, monthly amount off per subscriber
+  startMonth: YYYYMM;
+  durationMonths?: number; // undefined = forever
+  subscriberShare: number; // share of subscribers it applies to (0–1)
+}
+
+/**
+ * A single tax applied to subscription revenue, e.g. 12% VAT.
+ */
+export interface TaxRate {
+  name: string;
+  rate: number; // e.g. 0.12 = 12%
+}
+
+/**
+ * Tax configuration of a subscription.
+ */
+export interface SubscriptionTaxConfig {
+  rates: TaxRate[];
+  inclusive: boolean; // true if the rate amount already includes tax
+  withholdingRate?: number; // share of net-of-tax revenue withheld by customers, e.g. 0.02
+}
+
+/**
+ * Amount of a single tax for a period.
+ */
+export interface TaxLine {
+  name: string;
+  rate: number;
+  amount: MajikMoney;
+}
+
+/**
+ * Split of a month's revenue into net-of-tax revenue and taxes.
+ */
+export interface TaxBreakdown {
+  month: YYYYMM;
+  netOfTax: MajikMoney; // revenue after discounts, excluding tax
+  taxCollected: MajikMoney; // sum of all tax lines
+  lines: TaxLine[];
+  grossBilled: MajikMoney; // netOfTax + taxCollected
+  withholding: MajikMoney; // withheld by customers, creditable against tax due
+  cashReceived: MajikMoney; // grossBilled - withholding
+}
+
+/**
+ * Exchange rates relative to a base currency: `rates[code]` is how many units of `base`
+ * one unit of `code` is worth. `monthly` overrides the static rates for specific months.
+ */
+export interface FXRateTable {
+  base: string;
+  rates: Record<string, number>;
+  monthly?: Partial<Record<YYYYMM, Record<string, number>>>;
+}
+
+/**
+ * Pluggable source of exchange rates.
+ */
+export interface FXRateProvider {
+  /** Returns how many units of `to` one unit of `from` is worth in the given month. */
+  getRate(from: string, to: string, month?: YYYYMM): number;
+}
+
+/**
+ * Currency conversion settings of a subscription.
+ */
+export interface SubscriptionFXConfig {
+  reportingCurrency?: string; // defaults to the rate currency
+  table?: FXRateTable;
+}
+
+/**
+ * A regional price point charged to a share of subscribers instead of the base rate.
+ * Priced per unit per billing cycle, in its own currency.
+ */
+export interface RegionalPrice {
+  id: string;
+  region: string;
+  amount: MajikMoney;
+  subscriberShare: number; // 0–1
 }
 
 /**
@@ -35,8 +145,203 @@ export interface COSItem {
  */
 export interface MonthlyCapacity {
   month: YYYYMM;
-  capacity: number; // max number of subscribers
+  capacity: number; // max number of subscribers (the subscriber count itself when no demand is set)
   adjustment?: number; // optional increase/decrease
+  demand?: number; // subscribers wanting the plan; effective subscribers are min(demand, capacity)
+  newSubscribers?: number; // subscribers acquired this month (cohort model)
+  churnedSubscribers?: number; // subscribers lost this month (cohort model)
+  usage?: Record<string, number>; // metered usage per component ID (projection or actual)
+  prorations?: ProrationEntry[]; // recorded mid-cycle plan changes
+}
+
+/**
+ * Parameters of a capacity curve.
+ */
+export interface CapacityCurveParams {
+  curve: CapacityCurve;
+  start: number; // units in the first month
+  growthRate?: number; // COMPOUND: monthly growth (> -1); LOGISTIC: intrinsic growth rate
+  increment?: number; // LINEAR: units added per month
+  ceiling?: number; // LOGISTIC: market ceiling
+  steps?: Record<YYYYMM, number>; // STEP: units added from each month onward
+}
+
+/**
+ * Options for generating a capacity plan from a curve.
+ */
+export interface CapacityCurveOptions extends CapacityCurveParams {
+  months: number;
+  startDate?: StartDateInput; // defaults to the current month
+  seasonality?: number[]; // 12 multipliers by calendar month (January first), applied on top of the curve
+}
+
+/**
+ * A curve fitted to historical capacity.
+ */
+export interface CapacityCurveFit extends CapacityCurveParams {
+  rSquared: number; // goodness of fit (1 = perfect)
+}
+
+/**
+ * What actually happened in a month. Omitted fields fall back to the plan.
+ */
+export interface MonthlyActuals {
+  month: YYYYMM;
+  subscribers?: number;
+  revenue?: MajikMoney; // revenue collected
+  cos?: MajikMoney;
+}
+
+/**
+ * Plan vs actual for one money figure.
+ */
+export interface VarianceLine {
+  plan: MajikMoney;
+  actual: MajikMoney;
+  delta: MajikMoney; // actual less plan
+  deltaPercent: number; // delta / plan (0 if the plan is zero)
+}
+
+/**
+ * Plan vs actual for a month.
+ */
+export interface MonthlyVariance {
+  month: YYYYMM;
+  subscribers: {
+    plan: number;
+    actual: number;
+    delta: number;
+    deltaPercent: number;
+  };
+  revenue: VarianceLine;
+  cos: VarianceLine;
+  profit: VarianceLine;
+}
+
+/**
+ * A month of a rolling re-forecast.
+ */
+export interface ReforecastMonth {
+  month: YYYYMM;
+  source: "actual" | "plan";
+  subscribers: number;
+  revenue: MajikMoney;
+  cos: MajikMoney;
+  profit: MajikMoney;
+}
+
+/**
+ * Rolling re-forecast: actuals for closed months, plan for the rest.
+ */
+export interface RollingForecast {
+  asOf: YYYYMM | null; // last closed month
+  months: ReforecastMonth[];
+  revenue: MajikMoney;
+  cos: MajikMoney;
+  profit: MajikMoney;
+}
+
+/**
+ * Demand against capacity for a month.
+ */
+export interface CapacityReportRow {
+  month: YYYYMM;
+  capacity: number; // capacity plus adjustment
+  demand: number;
+  subscribers: number; // min(demand, capacity)
+  unmetDemand: number;
+  utilization: number; // subscribers / capacity (0–1)
+  lostRevenue: MajikMoney; // revenue the unmet demand would have brought
+  overCapacity: boolean; // demand exceeds capacity
+}
+
+/**
+ * Monthly churn assumption.
+ * A single number applies a flat rate (e.g. 0.05 = 5% per month);
+ * an array applies a rate per cohort age, where index 0 is the first month after acquisition.
+ * The last value is reused for older cohorts.
+ */
+export type ChurnRate = number | number[];
+
+/**
+ * Inputs of the subscriber cohort model used to generate the capacity plan.
+ */
+export interface CohortModel {
+  startMonth: YYYYMM;
+  acquisitions: number[]; // new subscribers per month, starting at startMonth
+  churn: ChurnRate;
+}
+
+/**
+ * Trial offered to new subscribers before they start paying the rate.
+ */
+export interface SubscriptionTrial {
+  length: number;
+  lengthUnit: TrialLengthUnit;
+  paid: boolean;
+  price?: MajikMoney; // monthly price per trial user, for paid trials
+  conversionRate: number; // share of trial users who convert to paying (0–1)
+}
+
+/**
+ * Customer acquisition cost inputs.
+ * Monthly spend takes precedence for the months it covers; other months use the blended CAC.
+ */
+export interface AcquisitionCost {
+  perSubscriber?: MajikMoney; // blended CAC per new subscriber
+  monthlySpend?: Record<YYYYMM, MajikMoney>; // total acquisition spend per month
+  churnRate?: number; // fallback monthly churn when the plan shows none (0–1)
+  maxLifetimeMonths?: number; // caps customer lifetime, defaults to 60
+}
+
+/**
+ * Unit economics for the whole plan or a single month.
+ */
+export interface UnitEconomics {
+  month?: YYYYMM; // omitted for the whole plan
+  cac: MajikMoney; // acquisition cost per new subscriber
+  arpu: MajikMoney; // monthly revenue per paying subscriber
+  margin: number; // gross margin (0–1)
+  churnRate: number; // monthly churn (0–1)
+  lifetimeMonths: number; // 1 / churn, capped
+  ltv: MajikMoney; // arpu × margin × lifetime
+  ltvToCac: number;
+  paybackMonths: number | null; // months of gross profit to recover CAC (null if never)
+}
+
+/**
+ * Trial funnel for a single month.
+ */
+export interface TrialFunnel {
+  month: YYYYMM;
+  trialStarts: number; // new subscribers starting a trial this month
+  trialUsers: number; // subscribers in trial this month (pro-rated for partial months)
+  conversions: number; // trial users converting to paying this month
+  payingUsers: number; // subscribers paying the rate this month
+}
+
+/**
+ * Remaining subscribers of a single acquisition cohort, per month.
+ */
+export interface CohortRow {
+  cohort: YYYYMM;
+  acquired: number;
+  active: number[]; // active subscribers from the cohort month onwards
+}
+
+/**
+ * MRR bridge for a single month.
+ * startingMRR + newMRR + expansionMRR - contractionMRR - churnedMRR = endingMRR
+ */
+export interface MRRMovement {
+  month: YYYYMM;
+  startingMRR: MajikMoney;
+  newMRR: MajikMoney;
+  expansionMRR: MajikMoney;
+  contractionMRR: MajikMoney;
+  churnedMRR: MajikMoney;
+  netNewMRR: MajikMoney;
+  endingMRR: MajikMoney;
 }
 
 /**
@@ -70,6 +375,233 @@ export interface SubscriptionFinance {
     gross: ValueRatio;
     net: ValueRatio;
   };
+
+  tax: {
+    collected: ValueRatio;
+    withheld: ValueRatio;
+  };
+}
+
+/**
+ * A price tier for tiered and volume pricing.
+ * `upTo` is the inclusive upper bound of units; `null` marks the last, open-ended tier.
+ */
+export interface PriceTier {
+  upTo: number | null;
+  unitAmount: MajikMoney;
+  flatAmount?: MajikMoney; // optional fixed fee charged when the tier is reached
+}
+
+/**
+ * Finance snapshot for a single month.
+ */
+export interface MonthlySnapshot {
+  month: YYYYMM;
+  revenue: MajikMoney; // base plus add-on revenue
+  baseRevenue: MajikMoney;
+  addOnRevenue: MajikMoney;
+  cashRevenue: MajikMoney;
+  usageRevenue: MajikMoney;
+  discounts: MajikMoney;
+  taxCollected: MajikMoney;
+  taxWithheld: MajikMoney;
+  cogs: MajikMoney;
+  profit: MajikMoney;
+  margin: number;
+  netRevenue: MajikMoney;
+  netIncome: MajikMoney;
+}
+
+/**
+ * A discount applied on an invoice.
+ */
+export interface InvoiceDiscountLine {
+  discountId: string;
+  name: string;
+  amount: MajikMoney;
+}
+
+/**
+ * A charge on an invoice.
+ */
+export interface InvoiceLine {
+  kind: InvoiceLineKind;
+  description: string; // e.g. the add-on or metered component name
+  quantity: number; // subscribers, trial users or metered units billed
+  amount: MajikMoney;
+}
+
+/**
+ * A single invoice generated from the subscription's rate and capacity plan.
+ */
+export interface InvoiceRecord {
+  invoiceNumber: number; // 1-based sequence within the schedule
+  subscriptionId: SubscriptionID;
+  billingDate: ISODateString;
+  periodStart: ISODateString;
+  periodEnd: ISODateString; // last day covered (inclusive)
+  quantity: number; // billed subscribers
+  unitPrice: MajikMoney; // average base price per subscriber for the period
+  lines: InvoiceLine[]; // base rate, then the month's add-on, usage, trial and proration charges
+  subtotal: MajikMoney; // sum of the lines
+  discounts: InvoiceDiscountLine[];
+  discountTotal: MajikMoney;
+  netOfTax: MajikMoney;
+  taxLines: TaxLine[];
+  taxTotal: MajikMoney;
+  total: MajikMoney; // amount billed to the customer
+}
+
+/**
+ * Options for generating an invoice schedule.
+ */
+export interface InvoiceScheduleOptions {
+  from?: YYYYMM; // first billing month to include
+  to?: YYYYMM; // last billing month to include
+  anchorDay?: number; // overrides the rate's anchor day
+}
+
+/**
+ * Rate and quantity on one side of a plan change.
+ */
+export interface ProrationPlan {
+  rate: SubscriptionRate;
+  quantity: number;
+}
+
+/**
+ * A mid-cycle plan change, e.g. 10 → 25 seats or monthly → yearly.
+ */
+export interface ProrationChange {
+  changeDate: ISODateString | Date;
+  from?: Partial<ProrationPlan>; // defaults to the current rate and the month's billed subscribers
+  to: Partial<ProrationPlan>; // defaults to `from` for any omitted field
+  policy?: ProrationPolicy; // defaults to DAILY
+}
+
+/**
+ * A credit or charge line produced by a plan change.
+ */
+export interface ProrationLine {
+  kind: "credit" | "charge";
+  description: string;
+  periodStart: ISODateString;
+  periodEnd: ISODateString;
+  amount: MajikMoney; // always positive; `kind` gives the direction
+}
+
+/**
+ * Outcome of a plan change under a proration policy.
+ */
+export interface ProrationResult {
+  changeDate: ISODateString;
+  policy: ProrationPolicy;
+  lines: ProrationLine[];
+  credit: MajikMoney;
+  charge: MajikMoney;
+  net: MajikMoney; // charge less credit
+  amountDue: MajikMoney; // billed (or refunded, if negative) at the change date
+  creditBalance: MajikMoney; // credit carried forward to future invoices
+}
+
+/**
+ * A plan change recorded against a capacity plan month.
+ */
+export interface ProrationEntry {
+  changeDate: ISODateString;
+  policy: ProrationPolicy;
+  amount: MajikMoney; // amount due at the change date, invoiced (cash) in the change month
+  periodEnd?: ISODateString; // last day the amount covers; accrual spreads it daily from the change date
+}
+
+/**
+ * What-if overrides applied to a copy of a subscription.
+ */
+export interface ScenarioOverrides {
+  priceChange?: number; // relative change of the rate, tiers and regional prices (0.1 = +10%)
+  cosMultiplier?: number; // multiplies the unit cost of every COS item (1.2 = +20%)
+  churn?: ChurnRate; // re-runs the cohort model with this churn
+  growthRate?: number; // regenerates capacity from the first month with this monthly growth
+}
+
+/**
+ * Variables that can be swept in a sensitivity analysis.
+ */
+export type ScenarioVariable = keyof ScenarioOverrides;
+
+/**
+ * Headline finance figures of a scenario.
+ */
+export interface ScenarioMetrics {
+  revenue: MajikMoney;
+  cogs: MajikMoney;
+  profit: MajikMoney;
+  margin: number;
+}
+
+/**
+ * Baseline and scenario figures for one month, with their difference.
+ */
+export interface ScenarioMonth {
+  month: YYYYMM;
+  baseline: ScenarioMetrics;
+  scenario: ScenarioMetrics;
+  delta: ScenarioMetrics; // scenario less baseline
+}
+
+/**
+ * Side-by-side comparison of a scenario against the original subscription.
+ */
+export interface ScenarioResult {
+  overrides: ScenarioOverrides;
+  baseline: ScenarioMetrics;
+  scenario: ScenarioMetrics;
+  delta: ScenarioMetrics; // scenario less baseline
+  months: ScenarioMonth[];
+}
+
+/**
+ * One point of a sensitivity sweep.
+ */
+export interface SensitivityPoint {
+  value: number;
+  revenue: MajikMoney;
+  grossProfit: MajikMoney;
+  margin: number;
+}
+
+/**
+ * Criteria for filtering subscriptions in a portfolio. All provided fields must match.
+ */
+export interface PortfolioFilter {
+  category?: string;
+  status?: SubscriptionStatus;
+  visibility?: SubscriptionVisibility;
+  type?: SubscriptionType;
+}
+
+/**
+ * Plain JSON form of a portfolio, as produced by its `toJSON`.
+ */
+export interface PortfolioJSON {
+  __type: "MajikSubscriptionPortfolio";
+  __object: "json";
+  id: string;
+  name: string;
+  currencyCode: string;
+  timestamp: ISODateString;
+  last_update: ISODateString;
+  subscriptions: object[]; // serialized member subscriptions
+}
+
+/**
+ * Revenue contribution of a single plan within a portfolio.
+ */
+export interface PlanRevenueShare {
+  id: SubscriptionID;
+  name: string;
+  revenue: MajikMoney;
+  share: number; // 0–1 of portfolio revenue
 }
 
 /**
@@ -79,6 +611,35 @@ export interface SubscriptionRate {
   amount: MajikMoney;
   unit: RateUnit;
   billingCycle: BillingCycle; // monthly, quarterly, yearly
+  model?: PricingModel; // defaults to PER_UNIT
+  tiers?: PriceTier[]; // required for TIERED and VOLUME
+  packageSize?: number; // required for PACKAGE
+  anchorDay?: number; // day of month invoices are issued (1–31), defaults to 1
+}
+
+/**
+ * Metered price component billed on usage above an included allowance.
+ */
+export interface MeteredComponent {
+  id: string;
+  name: string;
+  unit: string; // e.g. "API call", "GB"
+  includedQuantity: number; // allowance per paying subscriber per month
+  unitPrice: MajikMoney; // price per unit above the allowance
+  tiers?: PriceTier[]; // optional graduated overage tiers
+}
+
+/**
+ * Add-on sold on top of the base subscription, e.g. extra storage or an SSO module.
+ * Subscribers per month come from `counts` when set for the month, otherwise from `attachRate`.
+ */
+export interface SubscriptionAddOn {
+  id: string;
+  name: string;
+  rate: SubscriptionRate;
+  cos: COSItem[];
+  attachRate?: number; // share of paying base subscribers buying the add-on (0–1)
+  counts?: Record<YYYYMM, number>; // absolute add-on subscribers per month
 }
 
 /**
@@ -95,13 +656,66 @@ export interface SubscriptionMetadata {
   type: SubscriptionType;
   category: string;
   rate: SubscriptionRate;
+  meteredComponents?: MeteredComponent[];
+  addOns?: SubscriptionAddOn[];
   cos: COSItem[];
+  discounts?: SubscriptionDiscount[];
+  tax?: SubscriptionTaxConfig;
+  regionalPrices?: RegionalPrice[];
+  fx?: SubscriptionFXConfig;
   capacityPlan?: MonthlyCapacity[];
+  cohorts?: CohortModel;
+  trial?: SubscriptionTrial;
+  acquisition?: AcquisitionCost;
+  actuals?: MonthlyActuals[];
+  journal?: SubscriptionJournal;
 
   /** Cached finance snapshot */
   finance: SubscriptionFinance;
 }
 
+/**
+ * A path changed by a journaled call. A missing `before` or `after` means the value was unset.
+ */
+export interface JournalChange {
+  path: string; // e.g. "metadata.capacityPlan[2025-03].capacity"
+  segments: DiffSegment[];
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * A recorded mutating call.
+ */
+export interface JournalEntry {
+  id: string;
+  method: string; // e.g. "setRateAmount"
+  args: unknown[];
+  actor?: string;
+  timestamp: ISODateString;
+  changes: JournalChange[];
+}
+
+/**
+ * Change journal of a subscription, used for undo/redo and as an audit trail.
+ */
+export interface SubscriptionJournal {
+  entries: JournalEntry[];
+  cursor: number; // number of applied entries; entries from the cursor on were undone
+  limit?: number; // maximum entries kept; the oldest are dropped
+}
+
+/**
+ * A recorded lifecycle status transition.
+ */
+export interface StatusChange {
+  from: SubscriptionStatus;
+  to: SubscriptionStatus;
+  effectiveDate: ISODateString; // when the new status takes effect
+  timestamp: ISODateString; // when the transition was recorded
+  reason?: string;
+}
+
 /**
  * Subscription settings including visibility and status.
  */
@@ -109,4 +723,145 @@ export interface SubscriptionSettings {
   status: SubscriptionStatus;
   visibility: SubscriptionVisibility;
   system?: { isRestricted: boolean; restrictedUntil?: ISODateString };
+  statusHistory?: StatusChange[];
+}
+
+/**
+ * A structural problem found in a serialized subscription.
+ */
+export interface SchemaIssue {
+  path: string; // e.g. "metadata.capacityPlan[2].month"
+  message: string;
+}
+
+/**
+ * Upgrades a deserialized subscription document by one schema version.
+ */
+export type SubscriptionMigration = (
+  doc: Record<string, unknown>
+) => Record<string, unknown>;
+
+export type ValidationSeverity = "error" | "warning";
+
+/**
+ * A single problem found when validating a subscription.
+ * Errors should block saving; warnings should only be shown.
+ */
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  code: string; // e.g. "COS_SUBTOTAL_MISMATCH"
+  path: string; // e.g. "metadata.cos[0].subtotal"
+  message: string;
+}
+
+/**
+ * Result of `MajikSubscription.validate`.
+ */
+export interface ValidationReport {
+  valid: boolean; // true if there are no errors
+  errors: number;
+  warnings: number;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Before/after values carried by a change event.
+ */
+export interface SubscriptionChange<T> {
+  before: T;
+  after: T;
+}
+
+/**
+ * Change to the COS list. `items` are the COS items added, updated or removed.
+ */
+export interface COSChange extends SubscriptionChange<COSItem[]> {
+  items: COSItem[];
+}
+
+/**
+ * Events emitted by `MajikSubscription` and their payloads.
+ */
+export interface SubscriptionEventMap {
+  rateChanged: SubscriptionChange<SubscriptionRate>;
+  cosAdded: COSChange;
+  cosUpdated: COSChange;
+  cosRemoved: COSChange;
+  capacityUpdated: SubscriptionChange<MonthlyCapacity[]>;
+  statusChanged: SubscriptionChange<SubscriptionStatus>;
+  financeRecomputed: SubscriptionChange<SubscriptionFinance>;
+  changed: { events: SubscriptionEventName[] }; // once per mutation, or once per batch
+}
+
+export type SubscriptionEventName = keyof SubscriptionEventMap;
+
+export type SubscriptionEventListener<K extends SubscriptionEventName> = (
+  payload: SubscriptionEventMap[K]
+) => void;
+
+/**
+ * A step in a diff path: a field name, or an array item matched by `id` or `month`.
+ */
+export type DiffSegment = string | { key: "id" | "month"; value: string };
+
+/**
+ * A difference between two values, located by path segments.
+ */
+export interface DiffEntry {
+  segments: DiffSegment[];
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Fields of a subscription tracked by the change journal, `diff` and `merge`.
+ */
+export interface ComparableSubscriptionState {
+  name: string;
+  slug: string;
+  settings: SubscriptionSettings;
+  metadata: Partial<SubscriptionMetadata>;
+}
+
+/**
+ * A field-level difference between two subscriptions.
+ */
+export interface DiffChange {
+  path: string; // e.g. "metadata.cos[mjksubcost-ab12CD34].unitCost", "metadata.capacityPlan[2025-03].capacity"
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Change in an aggregate finance figure between two subscriptions.
+ */
+export interface FinanceDelta {
+  before: MajikMoney;
+  after: MajikMoney;
+  delta: MajikMoney;
+}
+
+/**
+ * Result of `MajikSubscription.diff`.
+ */
+export interface SubscriptionDiff {
+  changes: DiffChange[];
+  finance: {
+    revenue: FinanceDelta;
+    cos: FinanceDelta;
+    grossProfit: FinanceDelta;
+    netProfit: FinanceDelta;
+  };
+}
+
+/**
+ * A path both sides of a three-way merge changed differently.
+ */
+export interface MergeConflict {
+  path: string;
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
 }
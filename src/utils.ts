@@ -1,11 +1,39 @@
 import { customAlphabet } from "nanoid";
 import {
+  CapacityCurveFit,
+  CapacityCurveOptions,
+  CapacityCurveParams,
+  ChurnRate,
+  COSItem,
+  DiffEntry,
+  DiffSegment,
+  FXRateProvider,
+  FXRateTable,
+  MeteredComponent,
+  MonthlyCapacity,
+  PriceTier,
+  SchemaIssue,
+  SubscriptionDiscount,
   SubscriptionFinance,
+  SubscriptionMigration,
+  SubscriptionRate,
+  SubscriptionTrial,
   StartDateInput,
   ValueRatio,
   YYYYMM,
 } from "./types";
-import { MajikMoney } from "@thezelijah/majik-money";
+import { MajikMoney, serializeMoney } from "@thezelijah/majik-money";
+import {
+  BillingCycle,
+  CapacityCurve,
+  COSKind,
+  PricingModel,
+  RateUnit,
+  SubscriptionStatus,
+  SubscriptionType,
+  SubscriptionVisibility,
+  TrialLengthUnit,
+} from "./enums";
 
 /**
  * Generates a URL-friendly slug from the name,
@@ -49,7 +77,7 @@ export function autogenerateID(prefix: string = "majik"): string {
 }
 
 export function isValidYYYYMM(month: string): month is YYYYMM {
-  return /^\d{4}-0[1-9]|1[0-2]$/.test(month);
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
 }
 
 export function createZeroValueRatio(currencyCode: string): ValueRatio {
@@ -80,6 +108,10 @@ export function createEmptySubscriptionFinance(
       gross: createZeroValueRatio(currencyCode),
       net: createZeroValueRatio(currencyCode),
     },
+    tax: {
+      collected: createZeroValueRatio(currencyCode),
+      withheld: createZeroValueRatio(currencyCode),
+    },
   };
 }
 
@@ -177,3 +209,1274 @@ export function normalizeStartDate(input?: StartDateInput): Date {
 
   throw new Error("Invalid startDate format");
 }
+
+/**
+ * Returns the subscribers of a capacity plan entry: capacity plus adjustment,
+ * capped by demand when demand is tracked.
+ */
+export function effectiveSubscribers(entry: MonthlyCapacity): number {
+  const capacity = entry.capacity + (entry.adjustment ?? 0);
+  return entry.demand === undefined
+    ? capacity
+    : Math.max(0, Math.min(entry.demand, capacity));
+}
+
+/**
+ * Returns how many billing cycles fit in one month.
+ * Multiply a cycle-priced amount by this factor to get its monthly equivalent.
+ * Weeks are counted over a 365-day year, as `billingEventsInMonth` counts them day by day.
+ *
+ * @param cycle - The billing cycle of the rate.
+ * @returns Monthly-equivalent factor (e.g. 1/12 for yearly, 365/7/12 for weekly).
+ */
+export function billingCycleMonthlyFactor(cycle: BillingCycle): number {
+  switch (cycle) {
+    case BillingCycle.DAILY:
+      return 365 / 12;
+    case BillingCycle.WEEKLY:
+      return 365 / 7 / 12;
+    case BillingCycle.MONTHLY:
+      return 1;
+    case BillingCycle.QUARTERLY:
+      return 1 / 3;
+    case BillingCycle.YEARLY:
+      return 1 / 12;
+    default:
+      throw new Error(`Unsupported billing cycle: ${cycle}`);
+  }
+}
+
+/**
+ * Returns the number of days in a YYYYMM month (UTC).
+ */
+export function daysInMonth(month: YYYYMM): number {
+  const [year, mm] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, mm, 0)).getUTCDate();
+}
+
+/**
+ * Counts the invoices issued within a month for a billing cycle anchored at a start month.
+ * The first invoice is issued on the anchor day of the anchor month (clamped to its length).
+ * Quarterly and yearly cycles bill on every 3rd/12th month from the anchor,
+ * weekly cycles every 7 days from the first billing date, daily cycles every day.
+ *
+ * @param cycle - The billing cycle of the rate.
+ * @param anchor - First billed month.
+ * @param month - Month to count invoices for.
+ * @param anchorDay - Day of month of the first invoice (1–31). Defaults to 1.
+ * @returns Number of invoices billed in the month (0 before the anchor).
+ */
+export function billingEventsInMonth(
+  cycle: BillingCycle,
+  anchor: YYYYMM,
+  month: YYYYMM,
+  anchorDay: number = 1
+): number {
+  if (month < anchor) return 0;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const offset = monthsInPeriod(anchor, month) - 1;
+  const firstDay =
+    (anchorDateInMonth(anchor, anchorDay).getTime() -
+      yyyyMMToDate(month).getTime()) /
+    DAY_MS; // day of the first invoice relative to the month's 1st
+
+  switch (cycle) {
+    case BillingCycle.DAILY:
+      return daysInMonth(month) - Math.max(0, firstDay);
+    case BillingCycle.WEEKLY: {
+      const startDay = Math.max(0, -firstDay);
+      const endDay = daysInMonth(month) - firstDay;
+      return Math.ceil(endDay / 7) - Math.ceil(startDay / 7);
+    }
+    case BillingCycle.MONTHLY:
+      return 1;
+    case BillingCycle.QUARTERLY:
+      return offset % 3 === 0 ? 1 : 0;
+    case BillingCycle.YEARLY:
+      return offset % 12 === 0 ? 1 : 0;
+    default:
+      throw new Error(`Unsupported billing cycle: ${cycle}`);
+  }
+}
+
+/**
+ * Returns the billing date within a month for an anchor day, clamped to the month's length (UTC).
+ *
+ * @param month - Month in YYYY-MM format.
+ * @param anchorDay - Day of month invoices are issued (1–31).
+ */
+export function anchorDateInMonth(month: YYYYMM, anchorDay: number): Date {
+  const [year, mm] = month.split("-").map(Number);
+  return new Date(
+    Date.UTC(year, mm - 1, Math.min(anchorDay, daysInMonth(month)))
+  );
+}
+
+/**
+ * Returns the billing date following `date` for a billing cycle (UTC).
+ * Monthly, quarterly and yearly cycles keep the anchor day, clamped to shorter months.
+ *
+ * @param cycle - The billing cycle of the rate.
+ * @param date - Current billing date.
+ * @param anchorDay - Day of month invoices are issued (1–31).
+ * @returns The next billing date.
+ */
+export function nextBillingDateAfter(
+  cycle: BillingCycle,
+  date: Date,
+  anchorDay: number
+): Date {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const monthsAhead = (months: number) =>
+    anchorDateInMonth(
+      dateToYYYYMM(
+        new Date(
+          Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)
+        )
+      ),
+      anchorDay
+    );
+
+  switch (cycle) {
+    case BillingCycle.DAILY:
+      return new Date(date.getTime() + DAY_MS);
+    case BillingCycle.WEEKLY:
+      return new Date(date.getTime() + 7 * DAY_MS);
+    case BillingCycle.MONTHLY:
+      return monthsAhead(1);
+    case BillingCycle.QUARTERLY:
+      return monthsAhead(3);
+    case BillingCycle.YEARLY:
+      return monthsAhead(12);
+    default:
+      throw new Error(`Unsupported billing cycle: ${cycle}`);
+  }
+}
+
+/**
+ * Returns the churn rate applied to a cohort when it reaches the given age.
+ *
+ * @param churn - Flat churn rate or churn rates per cohort age.
+ * @param age - Months since acquisition (1 = first month after acquisition).
+ */
+export function churnRateAtAge(churn: ChurnRate, age: number): number {
+  if (typeof churn === "number") return churn;
+  if (churn.length === 0) return 0;
+  return churn[Math.min(age - 1, churn.length - 1)];
+}
+
+/**
+ * Computes the active subscribers of each acquisition cohort over a period.
+ * Survivors are rounded per cohort so that every cohort only ever shrinks.
+ *
+ * @param acquisitions - New subscribers per month.
+ * @param churn - Flat churn rate or churn rates per cohort age.
+ * @returns Matrix where `[cohort][month]` holds the active subscribers (0 before acquisition).
+ */
+export function computeCohortSurvivors(
+  acquisitions: number[],
+  churn: ChurnRate
+): number[][] {
+  const rates = typeof churn === "number" ? [churn] : churn;
+  if (rates.some((r) => !Number.isFinite(r) || r < 0 || r > 1)) {
+    throw new Error("Churn rate must be between 0 and 1");
+  }
+
+  const months = acquisitions.length;
+
+  return acquisitions.map((acquired, cohort) => {
+    const row: number[] = new Array(months).fill(0);
+    let survival = 1;
+
+    for (let month = cohort; month < months; month++) {
+      const age = month - cohort;
+      if (age > 0) survival *= 1 - churnRateAtAge(churn, age);
+      row[month] = Math.round(acquired * survival);
+    }
+
+    return row;
+  });
+}
+
+/**
+ * Validates the pricing model configuration of a rate.
+ *
+ * @param rate - The rate to validate.
+ * @throws Will throw an error if tiers or package size are missing or invalid.
+ */
+export function assertValidPricing(rate: SubscriptionRate): void {
+  const model = rate.model ?? PricingModel.PER_UNIT;
+
+  if (!Object.values(PricingModel).includes(model)) {
+    throw new Error(`Invalid pricing model: ${model}`);
+  }
+
+  if (model === PricingModel.TIERED || model === PricingModel.VOLUME) {
+    const tiers = rate.tiers ?? [];
+    if (tiers.length === 0) {
+      throw new Error(`${model} pricing requires at least one tier`);
+    }
+    assertValidTiers(tiers, rate.amount.currency.code);
+  }
+
+  if (
+    rate.anchorDay !== undefined &&
+    (!Number.isInteger(rate.anchorDay) ||
+      rate.anchorDay < 1 ||
+      rate.anchorDay > 31)
+  ) {
+    throw new Error("Anchor day must be an integer between 1 and 31");
+  }
+
+  if (model === PricingModel.PACKAGE) {
+    if (!Number.isInteger(rate.packageSize) || rate.packageSize! <= 0) {
+      throw new Error("Package pricing requires a positive integer packageSize");
+    }
+  }
+}
+
+/**
+ * Validates a tier table: ascending upper bounds, only the last tier open-ended,
+ * and all amounts in the given currency.
+ *
+ * @param tiers - The tiers to validate.
+ * @param currencyCode - Currency every tier amount must use.
+ * @throws Will throw an error if the tiers are invalid.
+ */
+export function assertValidTiers(
+  tiers: PriceTier[],
+  currencyCode: string
+): void {
+  let previous = 0;
+  tiers.forEach((tier, i) => {
+    const isLast = i === tiers.length - 1;
+    if (tier.upTo === null) {
+      if (!isLast) throw new Error("Only the last tier can be open-ended");
+      return;
+    }
+    if (!Number.isFinite(tier.upTo) || tier.upTo <= previous) {
+      throw new Error("Tier upper bounds must be positive and ascending");
+    }
+    previous = tier.upTo;
+  });
+
+  tiers.forEach((tier) => {
+    const codes = [tier.unitAmount, tier.flatAmount]
+      .filter((m): m is MajikMoney => !!m)
+      .map((m) => m.currency.code);
+    if (codes.some((code) => code !== currencyCode)) {
+      throw new Error("Currency mismatch with subscription rate");
+    }
+  });
+}
+
+/**
+ * Returns the tier a unit count falls into (the last tier if it exceeds all bounds).
+ */
+function findTier(tiers: PriceTier[], units: number): PriceTier {
+  return (
+    tiers.find((t) => t.upTo === null || units <= t.upTo) ??
+    tiers[tiers.length - 1]
+  );
+}
+
+/**
+ * Computes the charge for one billing cycle of a rate at a given unit count.
+ *
+ * @param rate - The subscription rate, including its pricing model.
+ * @param units - Number of units (subscribers, seats, accounts) billed.
+ * @returns The charge in the rate currency.
+ */
+export function computeRateCharge(
+  rate: SubscriptionRate,
+  units: number
+): MajikMoney {
+  const zero = MajikMoney.fromMinor(0, rate.amount.currency.code);
+  const model = rate.model ?? PricingModel.PER_UNIT;
+
+  if (model === PricingModel.PER_UNIT) return rate.amount.multiply(units);
+
+  const quantity = Math.max(0, units);
+  if (quantity === 0) return zero;
+
+  switch (model) {
+    case PricingModel.FLAT:
+      return rate.amount;
+
+    case PricingModel.PACKAGE:
+      return rate.amount.multiply(Math.ceil(quantity / rate.packageSize!));
+
+    case PricingModel.VOLUME: {
+      const tier = findTier(rate.tiers ?? [], quantity);
+      const charge = tier.unitAmount.multiply(quantity);
+      return tier.flatAmount ? charge.add(tier.flatAmount) : charge;
+    }
+
+    case PricingModel.TIERED:
+      return computeGraduatedCharge(rate.tiers ?? [], quantity, zero);
+
+    default:
+      throw new Error(`Unsupported pricing model: ${model}`);
+  }
+}
+
+/**
+ * Computes a graduated charge: each tier prices the units that fall within it.
+ */
+function computeGraduatedCharge(
+  tiers: PriceTier[],
+  quantity: number,
+  zero: MajikMoney
+): MajikMoney {
+  let charge = zero;
+  let lowerBound = 0;
+
+  for (const tier of tiers) {
+    if (quantity <= lowerBound) break;
+    const upper = tier.upTo === null ? quantity : Math.min(quantity, tier.upTo);
+    charge = charge.add(tier.unitAmount.multiply(upper - lowerBound));
+    if (tier.flatAmount) charge = charge.add(tier.flatAmount);
+    if (tier.upTo === null) break;
+    lowerBound = tier.upTo;
+  }
+
+  // Units beyond a closed last tier are priced at that tier's unit amount
+  if (quantity > lowerBound && tiers[tiers.length - 1]?.upTo !== null) {
+    charge = charge.add(
+      tiers[tiers.length - 1].unitAmount.multiply(quantity - lowerBound)
+    );
+  }
+
+  return charge;
+}
+
+/**
+ * Computes the monthly charge of a metered component.
+ * Usage above the included allowance (per paying subscriber) is billed at the unit price,
+ * or graduated through the component's tiers when present.
+ *
+ * @param component - The metered price component.
+ * @param usage - Total usage in the month.
+ * @param subscribers - Paying subscribers in the month, each bringing the included allowance.
+ * @returns The usage charge in the component currency.
+ */
+export function computeMeteredCharge(
+  component: MeteredComponent,
+  usage: number,
+  subscribers: number
+): MajikMoney {
+  const allowance = component.includedQuantity * Math.max(0, subscribers);
+  const overage = Math.max(0, usage - allowance);
+  const zero = MajikMoney.fromMinor(0, component.unitPrice.currency.code);
+
+  if (overage === 0) return zero;
+  if (component.tiers?.length) {
+    return computeGraduatedCharge(component.tiers, overage, zero);
+  }
+  return component.unitPrice.multiply(overage);
+}
+
+/**
+ * Returns true if a discount applies in the given month.
+ *
+ * @param discount - The discount to check.
+ * @param month - Month in YYYY-MM format.
+ */
+export function isDiscountActive(
+  discount: SubscriptionDiscount,
+  month: YYYYMM
+): boolean {
+  if (month < discount.startMonth) return false;
+  if (discount.durationMonths === undefined) return true;
+  return monthsInPeriod(discount.startMonth, month) <= discount.durationMonths;
+}
+
+/**
+ * Validates the cost behaviour fields of a COS item.
+ *
+ * @param item - The COS item to validate.
+ * @throws Will throw an error if the kind, step size or months are invalid.
+ */
+export function assertValidCOSSchedule(item: COSItem): void {
+  const kind = item.kind ?? COSKind.VARIABLE;
+
+  if (!Object.values(COSKind).includes(kind)) {
+    throw new Error(`Invalid COS kind: ${kind}`);
+  }
+
+  if (
+    kind === COSKind.STEP &&
+    (!Number.isInteger(item.stepSize) || item.stepSize! <= 0)
+  ) {
+    throw new Error("Step COS items require a positive integer stepSize");
+  }
+
+  if (kind === COSKind.ONE_OFF && (!item.month || !isValidYYYYMM(item.month))) {
+    throw new Error("One-off COS items require a valid month");
+  }
+
+  if (item.startMonth && !isValidYYYYMM(item.startMonth)) {
+    throw new Error(`Invalid month: ${item.startMonth}`);
+  }
+
+  if (item.endMonth && !isValidYYYYMM(item.endMonth)) {
+    throw new Error(`Invalid month: ${item.endMonth}`);
+  }
+
+  if (item.startMonth && item.endMonth && item.startMonth > item.endMonth) {
+    throw new Error("COS start month must be <= end month");
+  }
+}
+
+/**
+ * Computes the cost of a single COS item for a month.
+ *
+ * @param item - The COS item.
+ * @param month - Month in YYYY-MM format.
+ * @param units - Effective subscribers in the month.
+ * @returns The item's cost for the month (zero outside its effective period).
+ */
+export function computeCOSItemCost(
+  item: COSItem,
+  month: YYYYMM,
+  units: number
+): MajikMoney {
+  const zero = MajikMoney.fromMinor(0, item.subtotal.currency.code);
+
+  if (item.startMonth && month < item.startMonth) return zero;
+  if (item.endMonth && month > item.endMonth) return zero;
+
+  switch (item.kind ?? COSKind.VARIABLE) {
+    case COSKind.VARIABLE:
+      return item.subtotal.multiply(units);
+    case COSKind.FIXED:
+      return item.subtotal;
+    case COSKind.STEP:
+      return units <= 0
+        ? zero
+        : item.subtotal.multiply(Math.ceil(units / item.stepSize!));
+    case COSKind.ONE_OFF:
+      return item.month === month ? item.subtotal : zero;
+    default:
+      throw new Error(`Unsupported COS kind: ${item.kind}`);
+  }
+}
+
+/**
+ * Creates an FX rate provider backed by a static or per-month rate table.
+ * Month-specific rates take precedence over the static rates.
+ *
+ * @param table - Exchange rates relative to `table.base`.
+ * @returns A provider usable by `convertMoney`.
+ */
+export function createFXRateProvider(table: FXRateTable): FXRateProvider {
+  const lookup = (code: string, month?: YYYYMM): number => {
+    if (code === table.base) return 1;
+    const rate =
+      (month ? table.monthly?.[month]?.[code] : undefined) ?? table.rates[code];
+    if (rate === undefined || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`No FX rate for ${code}${month ? ` in ${month}` : ""}`);
+    }
+    return rate;
+  };
+
+  return {
+    getRate: (from, to, month) => lookup(from, month) / lookup(to, month),
+  };
+}
+
+/**
+ * Converts money into another currency using an FX rate provider.
+ *
+ * @param money - Amount to convert.
+ * @param currencyCode - Target currency.
+ * @param provider - Source of exchange rates.
+ * @param month - Optional month whose rate should be used.
+ * @returns The converted amount (the same instance if already in the target currency).
+ */
+export function convertMoney(
+  money: MajikMoney,
+  currencyCode: string,
+  provider: FXRateProvider,
+  month?: YYYYMM
+): MajikMoney {
+  if (money.currency.code === currencyCode) return money;
+  const rate = provider.getRate(money.currency.code, currencyCode, month);
+  return MajikMoney.fromMajor(money.toMajor() * rate, currencyCode);
+}
+
+/**
+ * Allowed lifecycle transitions per status. CANCELLED is terminal.
+ */
+export const SUBSCRIPTION_STATUS_TRANSITIONS: Record<
+  SubscriptionStatus,
+  readonly SubscriptionStatus[]
+> = {
+  [SubscriptionStatus.INACTIVE]: [
+    SubscriptionStatus.ACTIVE,
+    SubscriptionStatus.CANCELLED,
+  ],
+  [SubscriptionStatus.ACTIVE]: [
+    SubscriptionStatus.SUSPENDED,
+    SubscriptionStatus.INACTIVE,
+    SubscriptionStatus.CANCELLED,
+  ],
+  [SubscriptionStatus.SUSPENDED]: [
+    SubscriptionStatus.ACTIVE,
+    SubscriptionStatus.CANCELLED,
+  ],
+  [SubscriptionStatus.CANCELLED]: [],
+};
+
+/**
+ * Returns true if a subscription may move from one status to another.
+ */
+export function canTransitionStatus(
+  from: SubscriptionStatus,
+  to: SubscriptionStatus
+): boolean {
+  return SUBSCRIPTION_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Returns the trial length in (possibly fractional) months.
+ * Day-based trials use an average month of 365/12 days.
+ */
+export function trialLengthInMonths(trial: SubscriptionTrial): number {
+  return trial.lengthUnit === TrialLengthUnit.DAYS
+    ? trial.length / (365 / 12)
+    : trial.length;
+}
+
+/**
+ * Returns the curve value (before seasonality and rounding) at month index `t`.
+ */
+function capacityCurveValue(
+  params: CapacityCurveParams,
+  t: number,
+  month: YYYYMM
+): number {
+  const { start } = params;
+
+  switch (params.curve) {
+    case CapacityCurve.COMPOUND:
+      return start * Math.pow(1 + (params.growthRate ?? 0), t);
+    case CapacityCurve.LINEAR:
+      return start + (params.increment ?? 0) * t;
+    case CapacityCurve.LOGISTIC: {
+      const ceiling = params.ceiling!;
+      const rate = params.growthRate ?? 0;
+      return ceiling / (1 + ((ceiling - start) / start) * Math.exp(-rate * t));
+    }
+    case CapacityCurve.STEP:
+      return Object.entries(params.steps ?? {}).reduce(
+        (units, [from, increase]) => (from <= month ? units + increase : units),
+        start
+      );
+    default:
+      throw new Error(`Unsupported capacity curve: ${params.curve}`);
+  }
+}
+
+/**
+ * Validates the parameters of a capacity curve.
+ *
+ * @param params - Curve type and its parameters.
+ * @throws Will throw an error if a parameter required by the curve is missing or invalid.
+ */
+export function assertValidCapacityCurve(params: CapacityCurveParams): void {
+  if (!Object.values(CapacityCurve).includes(params.curve)) {
+    throw new Error(`Invalid capacity curve: ${params.curve}`);
+  }
+  // A fitted linear trend may start below zero; generated units are clamped at zero
+  if (
+    !Number.isFinite(params.start) ||
+    (params.start < 0 && params.curve !== CapacityCurve.LINEAR)
+  ) {
+    throw new Error("Start must be a non-negative number");
+  }
+
+  switch (params.curve) {
+    case CapacityCurve.COMPOUND:
+      if (
+        params.growthRate !== undefined &&
+        (!Number.isFinite(params.growthRate) || params.growthRate <= -1)
+      ) {
+        throw new Error("Growth rate must be greater than -1");
+      }
+      break;
+    case CapacityCurve.LINEAR:
+      if (params.increment !== undefined && !Number.isFinite(params.increment))
+        throw new Error("Increment must be a number");
+      break;
+    case CapacityCurve.LOGISTIC:
+      if (!Number.isFinite(params.ceiling) || params.ceiling! <= params.start)
+        throw new Error("Logistic curve requires a ceiling above the start");
+      if (params.start <= 0)
+        throw new Error("Logistic curve requires a positive start");
+      if (!Number.isFinite(params.growthRate) || params.growthRate! <= 0)
+        throw new Error("Logistic curve requires a positive growth rate");
+      break;
+    case CapacityCurve.STEP:
+      Object.entries(params.steps ?? {}).forEach(([month, increase]) => {
+        if (!isValidYYYYMM(month)) throw new Error(`Invalid month: ${month}`);
+        if (!Number.isFinite(increase))
+          throw new Error("Step increases must be numbers");
+      });
+      break;
+  }
+}
+
+/**
+ * Builds a monthly capacity plan from a curve, compatible with `setCapacity`.
+ * Seasonal multipliers (by calendar month) are applied on top of the curve;
+ * units are rounded and never negative.
+ *
+ * @param options - Curve, parameters, number of months, start date and optional seasonality.
+ * @returns The generated capacity plan.
+ */
+export function buildCapacityCurve(
+  options: CapacityCurveOptions
+): MonthlyCapacity[] {
+  if (!Number.isInteger(options.months) || options.months <= 0) {
+    throw new Error("Months must be a positive integer");
+  }
+  assertValidCapacityCurve(options);
+
+  const seasonality = options.seasonality;
+  if (seasonality) {
+    if (seasonality.length !== 12)
+      throw new Error("Seasonality requires 12 monthly multipliers");
+    if (seasonality.some((m) => !Number.isFinite(m) || m < 0))
+      throw new Error("Seasonal multipliers must be non-negative numbers");
+  }
+
+  const start = normalizeStartDate(options.startDate);
+
+  return Array.from({ length: options.months }, (_, t) => {
+    const month = offsetMonthsToYYYYMM(start, t);
+    const calendarIndex = Number(month.slice(5)) - 1;
+    const units =
+      capacityCurveValue(options, t, month) *
+      (seasonality ? seasonality[calendarIndex] : 1);
+    return { month, capacity: Math.max(0, Math.round(units)) };
+  });
+}
+
+/**
+ * Least-squares line through (x, y) points.
+ */
+function fitLine(
+  xs: number[],
+  ys: number[]
+): { intercept: number; slope: number } {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  const sxx = xs.reduce((acc, x) => acc + (x - meanX) ** 2, 0);
+  const sxy = xs.reduce((acc, x, i) => acc + (x - meanX) * (ys[i] - meanY), 0);
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  return { intercept: meanY - slope * meanX, slope };
+}
+
+/**
+ * Fits a compound, linear or logistic curve to historical capacity.
+ * Effective capacity (capacity plus adjustment) is used; the first actual month is t = 0.
+ * The logistic ceiling is searched for when not given.
+ *
+ * @param actuals - Historical capacity, at least two months.
+ * @param curve - Curve to fit.
+ * @param ceiling - Optional known market ceiling for logistic fits.
+ * @returns The fitted curve parameters and R².
+ */
+export function fitCapacityCurve(
+  actuals: MonthlyCapacity[],
+  curve: CapacityCurve,
+  ceiling?: number
+): CapacityCurveFit {
+  if (actuals.length < 2) {
+    throw new Error("Fitting requires at least two months of actuals");
+  }
+  const sorted = [...actuals].sort((a, b) => a.month.localeCompare(b.month));
+  const first = sorted[0].month;
+  const xs = sorted.map((s) => monthsInPeriod(first, s.month) - 1);
+  const ys = sorted.map((s) => s.capacity + (s.adjustment ?? 0));
+  const monthAt = (t: number) => offsetMonthsToYYYYMM(first, t);
+
+  const rSquared = (params: CapacityCurveParams) => {
+    const mean = ys.reduce((a, b) => a + b, 0) / ys.length;
+    const total = ys.reduce((acc, y) => acc + (y - mean) ** 2, 0);
+    const residual = ys.reduce(
+      (acc, y, i) =>
+        acc + (y - capacityCurveValue(params, xs[i], monthAt(xs[i]))) ** 2,
+      0
+    );
+    return total === 0 ? (residual === 0 ? 1 : 0) : 1 - residual / total;
+  };
+  const withFit = (params: CapacityCurveParams): CapacityCurveFit => ({
+    ...params,
+    rSquared: rSquared(params),
+  });
+
+  switch (curve) {
+    case CapacityCurve.LINEAR: {
+      const { intercept, slope } = fitLine(xs, ys);
+      return withFit({ curve, start: intercept, increment: slope });
+    }
+
+    case CapacityCurve.COMPOUND: {
+      if (ys.some((y) => y <= 0))
+        throw new Error("Compound fits require positive capacity");
+      const { intercept, slope } = fitLine(xs, ys.map(Math.log));
+      return withFit({
+        curve,
+        start: Math.exp(intercept),
+        growthRate: Math.exp(slope) - 1,
+      });
+    }
+
+    case CapacityCurve.LOGISTIC: {
+      if (ys.some((y) => y <= 0))
+        throw new Error("Logistic fits require positive capacity");
+      const max = Math.max(...ys);
+      const fitWithCeiling = (k: number): CapacityCurveFit | null => {
+        // ln(K / y - 1) = ln((K - y0) / y0) - r·t
+        const { intercept, slope } = fitLine(
+          xs,
+          ys.map((y) => Math.log(k / y - 1))
+        );
+        if (slope >= 0) return null;
+        const start = k / (1 + Math.exp(intercept));
+        return withFit({ curve, start, ceiling: k, growthRate: -slope });
+      };
+
+      if (ceiling !== undefined) {
+        if (!(ceiling > max))
+          throw new Error("Ceiling must exceed the largest actual");
+        const fit = fitWithCeiling(ceiling);
+        if (!fit) throw new Error("Actuals do not follow a logistic curve");
+        return fit;
+      }
+
+      let best: CapacityCurveFit | null = null;
+      for (let i = 1; i <= 200; i++) {
+        const fit = fitWithCeiling(max * (1 + i * 0.05));
+        if (fit && (!best || fit.rSquared > best.rSquared)) best = fit;
+      }
+      if (!best) throw new Error("Actuals do not follow a logistic curve");
+      return best;
+    }
+
+    default:
+      throw new Error(`Cannot fit a ${curve} curve`);
+  }
+}
+
+/**
+ * Schema version written by `MajikSubscription.toJSON`.
+ * Documents without a `schemaVersion` are treated as version 1.
+ */
+export const SUBSCRIPTION_SCHEMA_VERSION = 2;
+
+/**
+ * Migration steps keyed by the schema version they upgrade from.
+ * Adding a field that needs a default means bumping `SUBSCRIPTION_SCHEMA_VERSION`
+ * and adding the step that fills it in.
+ */
+export const SUBSCRIPTION_MIGRATIONS: Record<number, SubscriptionMigration> = {
+  // 1 → 2: fill in the fields older documents could be missing
+  1: (doc) => {
+    const metadata = doc.metadata;
+    if (isRecord(metadata)) {
+      metadata.type ??= doc.type;
+      metadata.category ??= doc.category;
+      metadata.rate ??= doc.rate;
+      if (!Array.isArray(metadata.cos)) metadata.cos = [];
+
+      const amount = isRecord(metadata.rate) ? metadata.rate.amount : undefined;
+      if (amount instanceof MajikMoney) {
+        const empty = createEmptySubscriptionFinance(amount.currency.code);
+        metadata.finance ??= empty;
+        if (isRecord(metadata.finance)) metadata.finance.tax ??= empty.tax;
+      }
+    }
+
+    doc.settings ??= {
+      status: SubscriptionStatus.ACTIVE,
+      visibility: SubscriptionVisibility.PRIVATE,
+      system: { isRestricted: false },
+    };
+    doc.last_update ??= doc.timestamp;
+    return doc;
+  },
+};
+
+/**
+ * Returns true if the value is a plain (non-array) object.
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Upgrades a deserialized subscription document to `SUBSCRIPTION_SCHEMA_VERSION`,
+ * running each migration step in turn.
+ *
+ * @param doc - Deserialized subscription document. Modified in place.
+ * @returns The migrated document.
+ * @throws Will throw an error if the version is invalid, newer than supported, or has no migration.
+ */
+export function migrateSubscriptionJSON(
+  doc: Record<string, unknown>
+): Record<string, unknown> {
+  const declared = doc.schemaVersion ?? 1;
+  if (
+    typeof declared !== "number" ||
+    !Number.isInteger(declared) ||
+    declared < 1
+  ) {
+    throw new Error(`Invalid schema version: ${declared}`);
+  }
+  let version = declared;
+  if (version > SUBSCRIPTION_SCHEMA_VERSION) {
+    throw new Error(
+      `Schema version ${version} is newer than supported version ${SUBSCRIPTION_SCHEMA_VERSION}`
+    );
+  }
+
+  let migrated = doc;
+  while (version < SUBSCRIPTION_SCHEMA_VERSION) {
+    const step = SUBSCRIPTION_MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from schema version ${version}`);
+    migrated = step(migrated);
+    version++;
+    migrated.schemaVersion = version;
+  }
+  return migrated;
+}
+
+/**
+ * Checks the structure of a deserialized, migrated subscription document.
+ * Every problem is reported with its path instead of stopping at the first one.
+ *
+ * @param doc - Deserialized subscription document.
+ * @returns The issues found; empty if the document is valid.
+ */
+export function validateSubscriptionJSON(doc: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const report = (path: string, message: string) =>
+    issues.push({ path, message });
+
+  const isString = (value: unknown): value is string =>
+    typeof value === "string" && value.trim() !== "";
+  const isNumber = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value);
+  const isMoney = (value: unknown): value is MajikMoney =>
+    value instanceof MajikMoney;
+
+  const requireString = (
+    obj: Record<string, unknown>,
+    key: string,
+    path: string
+  ) => {
+    if (!isString(obj[key])) report(path, "Must be a non-empty string");
+  };
+  const requireMoney = (
+    obj: Record<string, unknown>,
+    key: string,
+    path: string
+  ) => {
+    if (!isMoney(obj[key])) report(path, "Must be a money value");
+  };
+  const requireEnum = (
+    obj: Record<string, unknown>,
+    key: string,
+    values: object,
+    path: string
+  ) => {
+    if (!Object.values(values).includes(obj[key]))
+      report(path, `Invalid value: ${obj[key]}`);
+  };
+  const optionalArray = (
+    value: unknown,
+    path: string,
+    check: (item: Record<string, unknown>, path: string) => void
+  ) => {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) return report(path, "Must be an array");
+    value.forEach((item, i) => {
+      if (!isRecord(item)) report(`${path}[${i}]`, "Must be an object");
+      else check(item, `${path}[${i}]`);
+    });
+  };
+  const attempt = (path: string, assert: () => void) => {
+    try {
+      assert();
+    } catch (error) {
+      report(path, (error as Error).message);
+    }
+  };
+
+  if (!isRecord(doc)) {
+    report("", "Must be an object");
+    return issues;
+  }
+
+  requireString(doc, "id", "id");
+  requireString(doc, "name", "name");
+  requireString(doc, "timestamp", "timestamp");
+  if (doc.slug !== undefined && typeof doc.slug !== "string")
+    report("slug", "Must be a string");
+
+  // Settings
+  if (!isRecord(doc.settings)) {
+    report("settings", "Missing required property");
+  } else {
+    requireEnum(doc.settings, "status", SubscriptionStatus, "settings.status");
+    requireEnum(
+      doc.settings,
+      "visibility",
+      SubscriptionVisibility,
+      "settings.visibility"
+    );
+    optionalArray(
+      doc.settings.statusHistory,
+      "settings.statusHistory",
+      (change, path) => {
+        requireEnum(change, "from", SubscriptionStatus, `${path}.from`);
+        requireEnum(change, "to", SubscriptionStatus, `${path}.to`);
+        requireString(change, "effectiveDate", `${path}.effectiveDate`);
+      }
+    );
+  }
+
+  // Metadata
+  const metadata = doc.metadata;
+  if (!isRecord(metadata)) {
+    report("metadata", "Missing required property");
+    return issues;
+  }
+
+  if (!isRecord(metadata.description))
+    report("metadata.description", "Missing required property");
+  else if (typeof metadata.description.text !== "string")
+    report("metadata.description.text", "Must be a string");
+  requireEnum(metadata, "type", SubscriptionType, "metadata.type");
+  requireString(metadata, "category", "metadata.category");
+
+  const rate = metadata.rate;
+  if (!isRecord(rate)) {
+    report("metadata.rate", "Missing required property");
+  } else {
+    requireMoney(rate, "amount", "metadata.rate.amount");
+    requireEnum(rate, "unit", RateUnit, "metadata.rate.unit");
+    requireEnum(
+      rate,
+      "billingCycle",
+      BillingCycle,
+      "metadata.rate.billingCycle"
+    );
+    if (isMoney(rate.amount))
+      attempt("metadata.rate", () =>
+        assertValidPricing(rate as unknown as SubscriptionRate)
+      );
+  }
+
+  if (!Array.isArray(metadata.cos)) {
+    report("metadata.cos", "Missing required property");
+  } else {
+    optionalArray(metadata.cos, "metadata.cos", (item, path) => {
+      requireString(item, "id", `${path}.id`);
+      requireString(item, "item", `${path}.item`);
+      requireMoney(item, "unitCost", `${path}.unitCost`);
+      requireMoney(item, "subtotal", `${path}.subtotal`);
+      if (!isNumber(item.quantity))
+        report(`${path}.quantity`, "Must be a number");
+      attempt(path, () => assertValidCOSSchedule(item as unknown as COSItem));
+    });
+  }
+
+  optionalArray(
+    metadata.capacityPlan,
+    "metadata.capacityPlan",
+    (entry, path) => {
+      if (!isValidYYYYMM(String(entry.month)))
+        report(`${path}.month`, `Invalid month: ${entry.month}`);
+      if (!isNumber(entry.capacity))
+        report(`${path}.capacity`, "Must be a number");
+      if (entry.adjustment !== undefined && !isNumber(entry.adjustment))
+        report(`${path}.adjustment`, "Must be a number");
+      if (
+        entry.demand !== undefined &&
+        (!isNumber(entry.demand) || entry.demand < 0)
+      )
+        report(`${path}.demand`, "Must be a non-negative number");
+    }
+  );
+
+  optionalArray(metadata.discounts, "metadata.discounts", (discount, path) => {
+    requireString(discount, "id", `${path}.id`);
+    if (!isValidYYYYMM(String(discount.startMonth)))
+      report(`${path}.startMonth`, `Invalid month: ${discount.startMonth}`);
+  });
+
+  optionalArray(
+    metadata.meteredComponents,
+    "metadata.meteredComponents",
+    (component, path) => {
+      requireString(component, "id", `${path}.id`);
+      requireMoney(component, "unitPrice", `${path}.unitPrice`);
+    }
+  );
+
+  optionalArray(metadata.addOns, "metadata.addOns", (addOn, path) => {
+    requireString(addOn, "id", `${path}.id`);
+    if (!isRecord(addOn.rate) || !isMoney(addOn.rate.amount))
+      report(`${path}.rate.amount`, "Must be a money value");
+    if (!Array.isArray(addOn.cos)) report(`${path}.cos`, "Must be an array");
+  });
+
+  optionalArray(metadata.actuals, "metadata.actuals", (actual, path) => {
+    if (!isValidYYYYMM(String(actual.month)))
+      report(`${path}.month`, `Invalid month: ${actual.month}`);
+  });
+
+  if (metadata.journal !== undefined) {
+    const journal = metadata.journal;
+    if (!isRecord(journal) || !Array.isArray(journal.entries)) {
+      report("metadata.journal.entries", "Must be an array");
+    } else {
+      optionalArray(
+        journal.entries,
+        "metadata.journal.entries",
+        (entry, path) => {
+          requireString(entry, "method", `${path}.method`);
+          if (!Array.isArray(entry.args))
+            report(`${path}.args`, "Must be an array");
+          if (!Array.isArray(entry.changes)) {
+            report(`${path}.changes`, "Must be an array");
+            return;
+          }
+          entry.changes.forEach((change: unknown, i) => {
+            if (!isRecord(change) || !Array.isArray(change.segments))
+              report(`${path}.changes[${i}].segments`, "Must be an array");
+          });
+        }
+      );
+      if (
+        journal.limit !== undefined &&
+        (!isNumber(journal.limit) ||
+          !Number.isInteger(journal.limit) ||
+          journal.limit < 1)
+      )
+        report("metadata.journal.limit", "Must be a positive integer");
+      if (
+        !isNumber(journal.cursor) ||
+        !Number.isInteger(journal.cursor) ||
+        journal.cursor < 0 ||
+        journal.cursor > journal.entries.length
+      )
+        report("metadata.journal.cursor", "Must be an index within entries");
+    }
+  }
+
+  const finance = metadata.finance;
+  if (!isRecord(finance)) {
+    report("metadata.finance", "Missing required property");
+  } else {
+    const sections: Record<string, string[]> = {
+      revenue: ["gross", "net"],
+      income: ["gross", "net"],
+      profit: ["gross", "net"],
+      cos: ["gross", "net"],
+      tax: ["collected", "withheld"],
+    };
+    for (const [section, keys] of Object.entries(sections)) {
+      for (const key of keys) {
+        const path = `metadata.finance.${section}.${key}`;
+        const group = finance[section];
+        const ratio = isRecord(group) ? group[key] : undefined;
+        if (!isRecord(ratio)) report(path, "Missing required property");
+        else if (!isMoney(ratio.value))
+          report(`${path}.value`, "Must be a money value");
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Returns the field array items are matched by when diffing: `id`, else `month`.
+ */
+function diffArrayKey(items: unknown[]): "id" | "month" | undefined {
+  if (items.length === 0) return undefined;
+  const isKeyed = (key: string) =>
+    items.every(
+      (item) =>
+        typeof item === "object" &&
+        item !== null &&
+        typeof (item as Record<string, unknown>)[key] === "string"
+    );
+  if (isKeyed("id")) return "id";
+  if (isKeyed("month")) return "month";
+  return undefined;
+}
+
+/**
+ * Returns true if the value is an object to diff field by field.
+ */
+function isDiffObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof MajikMoney)
+  );
+}
+
+/**
+ * Returns true if two values serialize the same, money included.
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return (
+    JSON.stringify(serializeMoney({ value: a })) ===
+    JSON.stringify(serializeMoney({ value: b }))
+  );
+}
+
+/**
+ * Compares two values field by field. Arrays whose items all have an `id`
+ * (or else a `month`) are matched by that field; other arrays and money are compared whole.
+ *
+ * @param before - Earlier value.
+ * @param after - Later value.
+ * @param segments - Path of the values, used as the prefix of each entry.
+ * @returns The differences, one per changed leaf, added or removed item.
+ */
+export function diffValues(
+  before: unknown,
+  after: unknown,
+  segments: DiffSegment[] = []
+): DiffEntry[] {
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined) return [{ segments, kind: "added", after }];
+  if (after === undefined) return [{ segments, kind: "removed", before }];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const key = diffArrayKey(before) ?? diffArrayKey(after);
+    const matches = (items: unknown[]) =>
+      items.length === 0 || diffArrayKey(items) === key;
+    if (key && matches(before) && matches(after)) {
+      const index = (items: unknown[]) =>
+        new Map(
+          items.map((item) => [(item as Record<string, string>)[key], item])
+        );
+      const a = index(before);
+      const b = index(after);
+      return [...new Set([...a.keys(), ...b.keys()])].flatMap((value) =>
+        diffValues(a.get(value), b.get(value), [...segments, { key, value }])
+      );
+    }
+  }
+
+  if (isDiffObject(before) && isDiffObject(after)) {
+    return [
+      ...new Set([...Object.keys(before), ...Object.keys(after)]),
+    ].flatMap((field) =>
+      diffValues(before[field], after[field], [...segments, field])
+    );
+  }
+
+  return isSameValue(before, after)
+    ? []
+    : [{ segments, kind: "changed", before, after }];
+}
+
+/**
+ * Formats diff path segments, e.g. `metadata.capacityPlan[2025-03].capacity`.
+ */
+export function formatDiffPath(segments: DiffSegment[]): string {
+  return segments
+    .map((segment, i) =>
+      typeof segment === "string"
+        ? `${i === 0 ? "" : "."}${segment}`
+        : `[${segment.value}]`
+    )
+    .join("");
+}
+
+/**
+ * Returns true if `prefix` is the same path as `segments` or one of its ancestors.
+ */
+export function isDiffPathPrefix(
+  prefix: DiffSegment[],
+  segments: DiffSegment[]
+): boolean {
+  return (
+    prefix.length <= segments.length &&
+    prefix.every((segment, i) => {
+      const other = segments[i];
+      return typeof segment === "string" || typeof other === "string"
+        ? segment === other
+        : segment.key === other.key && segment.value === other.value;
+    })
+  );
+}
+
+/**
+ * Returns the value at a diff path, or undefined if the path does not exist.
+ */
+export function getDiffPathValue(
+  root: unknown,
+  segments: DiffSegment[]
+): unknown {
+  let current: unknown = root;
+  for (const segment of segments) {
+    if (typeof segment === "string") {
+      if (!isDiffObject(current)) return undefined;
+      current = current[segment];
+    } else {
+      if (!Array.isArray(current)) return undefined;
+      current = current.find(
+        (item) => isDiffObject(item) && item[segment.key] === segment.value
+      );
+    }
+  }
+  return current;
+}
+
+/**
+ * Sets the value at a diff path to the entry's `after` value, removing it if unset.
+ * Keyed array items are replaced in place or appended.
+ *
+ * @param root - Object to modify in place.
+ * @param entry - Difference to apply.
+ * @returns False if the parent of the path does not exist.
+ */
+export function applyDiffEntry(root: unknown, entry: DiffEntry): boolean {
+  const parent = getDiffPathValue(root, entry.segments.slice(0, -1));
+  const last = entry.segments[entry.segments.length - 1];
+  if (last === undefined) return false;
+
+  if (typeof last === "string") {
+    if (!isDiffObject(parent)) return false;
+    if (entry.after === undefined) delete parent[last];
+    else parent[last] = entry.after;
+    return true;
+  }
+
+  if (!Array.isArray(parent)) return false;
+  const index = parent.findIndex(
+    (item) => isDiffObject(item) && item[last.key] === last.value
+  );
+  if (entry.after === undefined) {
+    if (index >= 0) parent.splice(index, 1);
+  } else if (index >= 0) {
+    parent[index] = entry.after;
+  } else {
+    parent.push(entry.after);
+  }
+  return true;
+}